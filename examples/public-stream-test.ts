@@ -53,8 +53,8 @@ export function adaptiveStreamTest() {
 	})
 
 	// Monitor quality changes
-	player.on("loadedmetadata", (e) => {
-		const qualities = e.data?.qualities || []
+	player.on("loadedmetadata", () => {
+		const qualities = player.getQualities()
 		console.log(`Available qualities: ${qualities.length}`)
 		qualities.forEach((q: any) => {
 			console.log(`  - ${q.name} (${q.width}x${q.height}, ${q.bitrate}bps)`)
@@ -38,11 +38,11 @@ function playerWithEventsExample() {
 		console.log("Video ended")
 	})
 
-	player.on("timeupdate", (event: PlayerEvent) => {
+	player.on("timeupdate", (event: PlayerEvent<"timeupdate">) => {
 		console.log("Current time:", event.data.currentTime)
 	})
 
-	player.on("error", (event: PlayerEvent) => {
+	player.on("error", (event: PlayerEvent<"error">) => {
 		console.error("Player error:", event.data.error)
 	})
 
@@ -223,8 +223,8 @@ function qualitySelectionExample() {
 		container: "#player",
 	})
 
-	player.on("loadedmetadata", (event: PlayerEvent) => {
-		const qualities = event.data.qualities
+	player.on("loadedmetadata", () => {
+		const qualities = player.getQualities()
 		console.log("Available qualities:", qualities)
 
 		// Create quality menu
@@ -372,7 +372,7 @@ function saveResumeExample() {
 	})
 
 	// Save position periodically
-	player.on("timeupdate", (event: PlayerEvent) => {
+	player.on("timeupdate", (event: PlayerEvent<"timeupdate">) => {
 		const { currentTime } = event.data
 		localStorage.setItem(`video_${videoId}_position`, currentTime.toString())
 	})
@@ -0,0 +1,95 @@
+import { AbrConfig, QualityLevel, StorageAdapter } from "./types"
+import { LocalStorageAdapter, runStorage } from "./storage"
+
+const PREFERENCE_KEY = "quality"
+
+/**
+ * AbrController - Works out which quality levels automatic selection may use,
+ * and remembers the viewer's manual quality choice
+ */
+export class AbrController {
+	private config: AbrConfig
+	private storage: StorageAdapter
+
+	constructor(config?: AbrConfig) {
+		this.config = { ...config }
+		this.storage = config?.storage || new LocalStorageAdapter()
+	}
+
+	public setMaxHeight(height: number | undefined): void {
+		this.config.maxHeight = height
+	}
+
+	public setMinHeight(height: number | undefined): void {
+		this.config.minHeight = height
+	}
+
+	public setCapToPlayerSize(enabled: boolean): void {
+		this.config.capToPlayerSize = enabled
+	}
+
+	public shouldCapToPlayerSize(): boolean {
+		return !!this.config.capToPlayerSize
+	}
+
+	/**
+	 * Whether the browser's data saver (navigator.connection.saveData) is limiting quality
+	 */
+	public isSavingData(): boolean {
+		if (this.config.respectSaveData === false) return false
+		const connection = (navigator as Navigator & { connection?: { saveData?: boolean } }).connection
+		return !!connection?.saveData
+	}
+
+	/**
+	 * Index range automatic selection may use. Levels are expected in ascending order, as hls.js sorts them.
+	 * @param playerHeight - Rendered player height in device pixels
+	 */
+	public getLevelRange(levels: QualityLevel[], playerHeight: number): { min: number; max: number } {
+		let maxHeight = this.config.maxHeight ?? Infinity
+		if (this.isSavingData()) {
+			maxHeight = Math.min(maxHeight, this.config.saveDataMaxHeight ?? 480)
+		}
+		if (this.config.capToPlayerSize && playerHeight > 0) {
+			// Smallest level that still fills the player
+			const fitting = levels.find((level) => level.height >= playerHeight)
+			if (fitting) maxHeight = Math.min(maxHeight, fitting.height)
+		}
+		const minHeight = this.config.minHeight ?? 0
+
+		let min = levels.findIndex((level) => level.height >= minHeight)
+		let max = -1
+		levels.forEach((level, i) => {
+			if (level.height <= maxHeight) max = i
+		})
+
+		// Constraints nothing satisfies - fall back to the nearest levels
+		if (max === -1) max = 0
+		if (min === -1 || min > max) min = max
+
+		return { min, max }
+	}
+
+	/**
+	 * Height of the remembered manual choice, null for Auto or when persistence is off
+	 */
+	public async getPreferredHeight(): Promise<number | null> {
+		if (!this.config.persist) return null
+		try {
+			const value = await this.storage.getItem(PREFERENCE_KEY)
+			const height = value ? parseInt(value, 10) : NaN
+			return isNaN(height) ? null : height
+		} catch (error) {
+			console.warn("WontumPlayer: Failed to read quality preference:", error)
+			return null
+		}
+	}
+
+	/**
+	 * Remember a manual choice, or forget it when the viewer goes back to Auto (null)
+	 */
+	public savePreferredHeight(height: number | null): void {
+		if (!this.config.persist) return
+		runStorage(() => (height === null ? this.storage.removeItem(PREFERENCE_KEY) : this.storage.setItem(PREFERENCE_KEY, height.toString())), "quality preference")
+	}
+}
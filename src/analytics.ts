@@ -325,6 +325,15 @@ export class Analytics {
 		}
 	}
 
+	/**
+	 * Update the video identifier (e.g. when a playlist advances)
+	 */
+	public setVideoId(videoId: string | undefined): void {
+		if (this.config) {
+			this.config.videoId = videoId
+		}
+	}
+
 	public getEvents(): AnalyticsEvent[] {
 		return [...this.events]
 	}
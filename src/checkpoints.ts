@@ -0,0 +1,72 @@
+import { Checkpoint } from "./types"
+
+/**
+ * CheckpointManager - Tracks in-video questions and which ones the viewer has dealt with
+ */
+export class CheckpointManager {
+	private checkpoints: Checkpoint[] = []
+	// Answered or skipped checkpoint ids
+	private resolved: Set<string> = new Set()
+
+	constructor(checkpoints: Checkpoint[] = []) {
+		checkpoints.forEach((checkpoint) => this.add(checkpoint))
+	}
+
+	/**
+	 * Add a checkpoint, replacing any with the same id
+	 */
+	public add(checkpoint: Checkpoint): void {
+		this.checkpoints = this.checkpoints.filter((c) => c.id !== checkpoint.id)
+		this.checkpoints.push(checkpoint)
+		this.checkpoints.sort((a, b) => a.time - b.time)
+	}
+
+	public remove(id: string): boolean {
+		const count = this.checkpoints.length
+		this.checkpoints = this.checkpoints.filter((c) => c.id !== id)
+		this.resolved.delete(id)
+		return this.checkpoints.length !== count
+	}
+
+	public get(id: string): Checkpoint | undefined {
+		return this.checkpoints.find((c) => c.id === id)
+	}
+
+	public getAll(): Checkpoint[] {
+		return [...this.checkpoints]
+	}
+
+	public isResolved(id: string): boolean {
+		return this.resolved.has(id)
+	}
+
+	public resolve(id: string): void {
+		this.resolved.add(id)
+	}
+
+	/**
+	 * First unresolved checkpoint reached by playing from `from` to `to` (from exclusive, to inclusive)
+	 */
+	public getReached(from: number, to: number): Checkpoint | null {
+		return this.checkpoints.find((c) => c.time > from && c.time <= to && !this.resolved.has(c.id)) ?? null
+	}
+
+	/**
+	 * First unresolved checkpoint a seek from `from` to `to` would jump over (both inclusive)
+	 */
+	public getSkipped(from: number, to: number): Checkpoint | null {
+		return this.checkpoints.find((c) => c.time >= from && c.time <= to && !this.resolved.has(c.id)) ?? null
+	}
+
+	/**
+	 * Whether an answer is correct - null for ungraded questions
+	 */
+	public isCorrect(checkpoint: Checkpoint, answer: number | string): boolean | null {
+		const expected = checkpoint.correctAnswer
+		if (expected === undefined) return null
+		if (typeof expected === "string") {
+			return String(answer).trim().toLowerCase() === expected.trim().toLowerCase()
+		}
+		return answer === expected
+	}
+}
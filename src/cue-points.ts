@@ -0,0 +1,42 @@
+import { CuePoint } from "./types"
+
+/**
+ * CuePointManager - Timestamps that fire once each time playback crosses them
+ */
+export class CuePointManager {
+	private cuePoints: CuePoint[] = []
+	private nextId = 1
+
+	/**
+	 * Add a cue point, replacing any with the same id. Returns the stored cue point (with its id).
+	 */
+	public add(cuePoint: CuePoint): CuePoint {
+		const stored = { ...cuePoint, id: cuePoint.id ?? `cue-${this.nextId++}` }
+		this.cuePoints = this.cuePoints.filter((c) => c.id !== stored.id)
+		this.cuePoints.push(stored)
+		this.cuePoints.sort((a, b) => a.time - b.time)
+		return stored
+	}
+
+	public remove(id: string): boolean {
+		const count = this.cuePoints.length
+		this.cuePoints = this.cuePoints.filter((c) => c.id !== id)
+		return this.cuePoints.length !== count
+	}
+
+	public clear(): void {
+		this.cuePoints = []
+	}
+
+	public getAll(): CuePoint[] {
+		return [...this.cuePoints]
+	}
+
+	/**
+	 * Cue points crossed by playing from `from` to `to`, in time order. `from` is included right after
+	 * a seek, so a cue point the viewer seeked onto still fires.
+	 */
+	public getCrossed(from: number, to: number, includeFrom: boolean): CuePoint[] {
+		return this.cuePoints.filter((c) => (includeFrom ? c.time >= from : c.time > from) && c.time <= to)
+	}
+}
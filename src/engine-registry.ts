@@ -0,0 +1,39 @@
+import { MediaEngineFactory } from "./types"
+import { SourceType } from "./source-type"
+import { hlsJsEngineFactory } from "./hls-engine"
+import { nativeEngineFactory } from "./native-engine"
+
+/**
+ * MediaEngineRegistry - Global list of media engines the player picks from per source
+ * Engines are tried in order: per-player `engines` config, registered engines, then built-ins.
+ */
+export class MediaEngineRegistry {
+	private static engines: MediaEngineFactory[] = []
+	private static readonly builtIn: MediaEngineFactory[] = [hlsJsEngineFactory, nativeEngineFactory]
+
+	/**
+	 * Register an engine. Later registrations take precedence over earlier ones.
+	 */
+	public static register(factory: MediaEngineFactory): void {
+		MediaEngineRegistry.unregister(factory.name)
+		MediaEngineRegistry.engines.unshift(factory)
+	}
+
+	public static unregister(name: string): void {
+		MediaEngineRegistry.engines = MediaEngineRegistry.engines.filter((factory) => factory.name !== name)
+	}
+
+	/**
+	 * All engines in selection order
+	 */
+	public static getEngines(preferred: MediaEngineFactory[] = []): MediaEngineFactory[] {
+		return [...preferred, ...MediaEngineRegistry.engines, ...MediaEngineRegistry.builtIn]
+	}
+
+	/**
+	 * Pick the first engine that can play the source
+	 */
+	public static select(sourceType: SourceType, mimeType: string | null, videoElement: HTMLVideoElement, preferred: MediaEngineFactory[] = []): MediaEngineFactory | null {
+		return MediaEngineRegistry.getEngines(preferred).find((factory) => factory.canPlay(sourceType, mimeType, videoElement)) || null
+	}
+}
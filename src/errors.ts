@@ -0,0 +1,149 @@
+import Hls, { ErrorData } from "hls.js"
+
+/**
+ * Stable error codes surfaced by WontumPlayer
+ */
+export type WontumErrorCode =
+	| "NETWORK_MANIFEST"
+	| "NETWORK_LEVEL"
+	| "NETWORK_FRAGMENT"
+	| "NETWORK_KEY"
+	| "NETWORK"
+	| "SIGNING_FAILED"
+	| "MEDIA_DECODE"
+	| "MEDIA_ABORTED"
+	| "MEDIA"
+	| "UNSUPPORTED"
+	| "UNKNOWN"
+
+export interface WontumErrorOptions {
+	/** Whether playback cannot continue without intervention (default: true) */
+	fatal?: boolean
+
+	/** Whether retrying (reloading the source) may fix the error (default: true for network and signing errors) */
+	recoverable?: boolean
+
+	/** hls.js error details (e.g. "manifestLoadError") */
+	details?: string
+
+	/** HTTP status of the failed request, if any */
+	httpStatus?: number
+
+	/** URL of the failed request, if any */
+	url?: string
+
+	/** The underlying error (MediaError, hls.js error, thrown Error) */
+	cause?: unknown
+}
+
+const DEFAULT_MESSAGES: Record<WontumErrorCode, string> = {
+	NETWORK_MANIFEST: "The video could not be loaded.",
+	NETWORK_LEVEL: "The video playlist could not be loaded.",
+	NETWORK_FRAGMENT: "A network error interrupted playback.",
+	NETWORK_KEY: "The video decryption key could not be loaded.",
+	NETWORK: "A network error occurred.",
+	SIGNING_FAILED: "Access to the video could not be authorized.",
+	MEDIA_DECODE: "The video could not be decoded.",
+	MEDIA_ABORTED: "Video loading was aborted.",
+	MEDIA: "A playback error occurred.",
+	UNSUPPORTED: "This video format is not supported in your browser.",
+	UNKNOWN: "An unknown error occurred.",
+}
+
+/**
+ * WontumError - Structured player error with a stable code
+ */
+export class WontumError extends Error {
+	public readonly code: WontumErrorCode
+	public readonly fatal: boolean
+	public readonly recoverable: boolean
+	public readonly details?: string
+	public readonly httpStatus?: number
+	public readonly url?: string
+	public readonly cause?: unknown
+
+	constructor(code: WontumErrorCode, message?: string, options: WontumErrorOptions = {}) {
+		super(message || DEFAULT_MESSAGES[code])
+		this.name = "WontumError"
+		this.code = code
+		this.fatal = options.fatal ?? true
+		this.recoverable = options.recoverable ?? (code.startsWith("NETWORK") || code === "SIGNING_FAILED")
+		this.details = options.details
+		this.httpStatus = options.httpStatus
+		this.url = options.url
+		this.cause = options.cause
+	}
+
+	/**
+	 * Create from an hls.js ERROR event
+	 */
+	public static fromHlsError(data: ErrorData): WontumError {
+		const httpStatus = data.response?.code || undefined
+
+		return new WontumError(WontumError.codeForHlsError(data), undefined, {
+			fatal: data.fatal,
+			recoverable: data.type === Hls.ErrorTypes.NETWORK_ERROR || data.type === Hls.ErrorTypes.MEDIA_ERROR,
+			details: data.details,
+			httpStatus,
+			url: data.url || data.frag?.url || data.context?.url,
+			cause: data.error,
+		})
+	}
+
+	/**
+	 * Create from a video element MediaError
+	 * @param unreachable - The source may just be unreachable: browsers report a 404 or an expired-signature 403
+	 * as MEDIA_ERR_SRC_NOT_SUPPORTED, so it becomes a recoverable network error that can fail over
+	 */
+	public static fromMediaError(error: MediaError | null, unreachable = false): WontumError {
+		switch (error?.code) {
+			case MediaError.MEDIA_ERR_ABORTED:
+				// The fetch was cancelled (usually by the user or a source change) - nothing is broken
+				return new WontumError("MEDIA_ABORTED", undefined, { cause: error, fatal: false, recoverable: true })
+			case MediaError.MEDIA_ERR_NETWORK:
+				return new WontumError("NETWORK", undefined, { cause: error })
+			case MediaError.MEDIA_ERR_DECODE:
+				return new WontumError("MEDIA_DECODE", undefined, { cause: error, recoverable: true })
+			case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+				if (unreachable) {
+					return new WontumError("NETWORK", DEFAULT_MESSAGES.NETWORK_MANIFEST, { cause: error, details: "srcNotSupported" })
+				}
+				return new WontumError("UNSUPPORTED", undefined, { cause: error })
+			default:
+				return new WontumError("MEDIA", error?.message || undefined, { cause: error })
+		}
+	}
+
+	/**
+	 * Wrap anything thrown into a WontumError (existing WontumErrors pass through)
+	 */
+	public static from(error: unknown, code: WontumErrorCode = "UNKNOWN"): WontumError {
+		if (error instanceof WontumError) return error
+		const message = error instanceof Error ? error.message : undefined
+		return new WontumError(code, message, { cause: error })
+	}
+
+	private static codeForHlsError(data: ErrorData): WontumErrorCode {
+		const details = data.details as string
+
+		switch (data.type) {
+			case Hls.ErrorTypes.NETWORK_ERROR:
+				if (details.startsWith("manifest")) return "NETWORK_MANIFEST"
+				if (details.startsWith("level") || details.startsWith("audioTrack") || details.startsWith("subtitleTrack")) return "NETWORK_LEVEL"
+				if (details.startsWith("frag")) return "NETWORK_FRAGMENT"
+				if (details.startsWith("key")) return "NETWORK_KEY"
+				return "NETWORK"
+			case Hls.ErrorTypes.MEDIA_ERROR:
+			case Hls.ErrorTypes.MUX_ERROR:
+				if (details === Hls.ErrorDetails.MANIFEST_INCOMPATIBLE_CODECS_ERROR || details === Hls.ErrorDetails.BUFFER_INCOMPATIBLE_CODECS_ERROR) {
+					return "UNSUPPORTED"
+				}
+				if (details.startsWith("buffer") || details.startsWith("frag") || details.startsWith("remux")) return "MEDIA_DECODE"
+				return "MEDIA"
+			case Hls.ErrorTypes.KEY_SYSTEM_ERROR:
+				return "UNSUPPORTED"
+			default:
+				return "UNKNOWN"
+		}
+	}
+}
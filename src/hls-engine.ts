@@ -0,0 +1,230 @@
+import Hls from "hls.js"
+import { LiveConfig, MediaEngineContext, MediaEngineStats, MediaEngineFactory, MediaErrorKind, MediaTrack, QualityLevel } from "./types"
+import { BaseMediaEngine } from "./media-engine"
+import { WontumError } from "./errors"
+
+/**
+ * HlsJsEngine - HLS playback through hls.js (Media Source Extensions)
+ */
+export class HlsJsEngine extends BaseMediaEngine {
+	public readonly name = "hls.js"
+	private hls: Hls
+	private videoElement: HTMLVideoElement
+	private fragmentsLoaded = 0
+	private totalFragmentLoadTime = 0
+	private lastFragmentLoadTime: number | null = null
+
+	constructor(context: MediaEngineContext) {
+		super()
+		this.videoElement = context.videoElement
+
+		const { config } = context
+		// Check if credentials should be enabled (for CloudFront signed cookies)
+		const withCredentials = config.s3Config?.withCredentials ?? false
+
+		// Merge live tuning and the user's HLS config with credential settings
+		const hlsConfig = {
+			...HlsJsEngine.liveConfig(config.live),
+			...config.hlsConfig,
+			xhrSetup: (xhr: XMLHttpRequest, url: string) => {
+				// Enable credentials if configured
+				if (withCredentials) {
+					xhr.withCredentials = true
+				}
+				if (config.hlsConfig?.xhrSetup) {
+					config.hlsConfig.xhrSetup(xhr, url)
+				}
+			},
+		}
+
+		this.hls = new Hls(hlsConfig)
+		this.setupListeners()
+	}
+
+	/**
+	 * Map LiveConfig onto hls.js latency options. hls.js rejects liveMaxLatencyDuration without liveSyncDuration.
+	 */
+	private static liveConfig(live: LiveConfig | undefined): Record<string, any> {
+		const options: Record<string, any> = {
+			lowLatencyMode: live?.lowLatency ?? true,
+		}
+		if (live?.targetLatency !== undefined) {
+			options.liveSyncDuration = live.targetLatency
+			if (live.maxLatency !== undefined) {
+				options.liveMaxLatencyDuration = live.maxLatency
+			}
+		}
+		if (live?.maxCatchUpRate !== undefined) {
+			options.maxLiveSyncPlaybackRate = live.maxCatchUpRate
+		}
+		return options
+	}
+
+	private setupListeners(): void {
+		this.hls.on(Hls.Events.MANIFEST_PARSED, () => {
+			this.emit("levels", { levels: this.getLevels() })
+		})
+
+		this.hls.on(Hls.Events.LEVEL_LOADED, (event, data) => {
+			this.emit("live", { live: data.details.live })
+		})
+
+		this.hls.on(Hls.Events.LEVEL_SWITCHED, (event, data) => {
+			this.emit("levelswitched", { level: data.level })
+		})
+
+		this.hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, () => {
+			this.emit("audiotracks", { tracks: this.getAudioTracks() })
+		})
+
+		this.hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, (event, data) => {
+			this.emit("audiotrackswitched", { id: data.id })
+		})
+
+		this.hls.on(Hls.Events.FRAG_LOADED, (event, data) => {
+			const { start, end } = data.frag.stats.loading
+			if (end >= start && start > 0) {
+				this.fragmentsLoaded++
+				this.lastFragmentLoadTime = end - start
+				this.totalFragmentLoadTime += this.lastFragmentLoadTime
+			}
+		})
+
+		this.hls.on(Hls.Events.FRAG_BUFFERED, () => {
+			this.emit("buffered")
+		})
+
+		this.hls.on(Hls.Events.ERROR, (event, data) => {
+			if (!data.fatal) return
+
+			let kind: MediaErrorKind = "other"
+			if (data.type === Hls.ErrorTypes.NETWORK_ERROR) kind = "network"
+			if (data.type === Hls.ErrorTypes.MEDIA_ERROR) kind = "media"
+
+			this.emit("error", { error: WontumError.fromHlsError(data), kind })
+		})
+	}
+
+	/**
+	 * The underlying hls.js instance, for hls.js-specific features
+	 */
+	public getHls(): Hls {
+		return this.hls
+	}
+
+	public load(url: string): void {
+		this.hls.loadSource(url)
+		this.hls.attachMedia(this.videoElement)
+	}
+
+	public destroy(): void {
+		this.hls.destroy()
+		super.destroy()
+	}
+
+	public getLevels(): QualityLevel[] {
+		return this.hls.levels.map((level) => ({
+			height: level.height,
+			width: level.width,
+			bitrate: level.bitrate,
+			name: `${level.height}p`,
+		}))
+	}
+
+	public getCurrentLevel(): number {
+		return this.hls.currentLevel
+	}
+
+	public setCurrentLevel(index: number): void {
+		this.hls.currentLevel = index
+	}
+
+	public getStats(): MediaEngineStats {
+		const bandwidthEstimate = this.hls.bandwidthEstimate
+		return {
+			bandwidthEstimate: isFinite(bandwidthEstimate) ? bandwidthEstimate : null,
+			loadingLevel: this.hls.loadLevel,
+			fragmentsLoaded: this.fragmentsLoaded,
+			averageFragmentLoadTime: this.fragmentsLoaded > 0 ? this.totalFragmentLoadTime / this.fragmentsLoaded : null,
+			lastFragmentLoadTime: this.lastFragmentLoadTime,
+		}
+	}
+
+	public setAutoLevelRange(minIndex: number, maxIndex: number): void {
+		const levels = this.hls.levels
+		this.hls.autoLevelCapping = maxIndex >= levels.length - 1 ? -1 : maxIndex
+		// hls.js derives its lowest automatic level from a bitrate floor
+		this.hls.config.minAutoBitrate = minIndex > 0 && levels[minIndex] ? levels[minIndex].bitrate : 0
+	}
+
+	public getAudioTracks(): MediaTrack[] {
+		return this.hls.audioTracks.map((track) => ({
+			id: track.id,
+			name: track.name,
+			language: track.lang,
+			default: track.default,
+		}))
+	}
+
+	public getAudioTrack(): number {
+		return this.hls.audioTrack
+	}
+
+	public setAudioTrack(id: number): void {
+		this.hls.audioTrack = id
+	}
+
+	public getTextTracks(): MediaTrack[] {
+		return this.hls.subtitleTracks.map((track) => ({
+			id: track.id,
+			name: track.name,
+			language: track.lang,
+			default: track.default,
+		}))
+	}
+
+	public getTextTrack(): number {
+		return this.hls.subtitleDisplay ? this.hls.subtitleTrack : -1
+	}
+
+	public setTextTrack(id: number): void {
+		this.hls.subtitleDisplay = id !== -1
+		this.hls.subtitleTrack = id
+	}
+
+	public getLiveSyncPosition(): number | null {
+		return this.hls.liveSyncPosition
+	}
+
+	public getLatency(): number | null {
+		return this.hls.latency
+	}
+
+	public getTargetLatency(): number | null {
+		return this.hls.targetLatency
+	}
+
+	public startLoad(position?: number): void {
+		this.hls.startLoad(position)
+	}
+
+	public recoverMediaError(): void {
+		this.hls.recoverMediaError()
+	}
+
+	public swapAudioCodec(): void {
+		this.hls.swapAudioCodec()
+	}
+
+	public reload(url: string): void {
+		const position = this.videoElement.currentTime
+		this.hls.loadSource(url)
+		this.hls.startLoad(position)
+	}
+}
+
+export const hlsJsEngineFactory: MediaEngineFactory = {
+	name: "hls.js",
+	canPlay: (sourceType) => sourceType === "hls" && Hls.isSupported(),
+	create: (context) => new HlsJsEngine(context),
+}
@@ -4,6 +4,12 @@ export { Analytics } from "./analytics"
 export { S3Handler } from "./s3-handler"
 export { UIController } from "./ui-controller"
 export { WontumFileInfo } from "./file-info"
+export { LocalStorageAdapter } from "./storage"
+export { WontumError } from "./errors"
+export { MediaEngineRegistry } from "./engine-registry"
+export { BaseMediaEngine } from "./media-engine"
+export { HlsJsEngine } from "./hls-engine"
+export { NativeEngine } from "./native-engine"
 
 // React exports
 export { WontumPlayerReact, useWontumPlayer, WontumPlayerProvider, useWontumPlayerContext, useVideoFileInfo, useAnalytics } from "./react"
@@ -19,10 +25,52 @@ export type {
 	PlayerState,
 	PlayerEvent,
 	PlayerEventType,
+	PlayerEventMap,
+	PlayerEventCallback,
+	PlayerEventArgs,
 	AnalyticsEvent,
 	QualityLevel,
+	StorageAdapter,
+	ResumeConfig,
+	PlaylistItem,
+	PlaylistConfig,
+	RepeatMode,
+	Chapter,
+	WontumPlugin,
+	PluginContext,
+	UISlotName,
+	RecoveryConfig,
+	RecoveryAction,
+	VideoSource,
+	MediaEngine,
+	MediaEngineFactory,
+	MediaEngineContext,
+	MediaEngineEventMap,
+	MediaTrack,
+	MediaErrorKind,
+	LiveConfig,
+	TimeRange,
+	SubtitleTrackInfo,
+	AbrConfig,
+	PlaybackStats,
+	MediaEngineStats,
+	Thumbnail,
+	ClipConfig,
+	PlaybackStatus,
+	MediaSessionMetadata,
+	KeyboardAction,
+	KeyboardConfig,
+	TouchConfig,
+	Checkpoint,
+	CheckpointConfig,
+	CuePoint,
+	CompletionConfig,
 } from "./types"
 
 export type { VideoFileInfo } from "./file-info"
 
+export type { WontumErrorCode, WontumErrorOptions } from "./errors"
+
+export type { SourceType } from "./source-type"
+
 export type { WontumPlayerReactProps, UseVideoFileInfoResult, UseAnalyticsResult } from "./react"
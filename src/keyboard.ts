@@ -0,0 +1,122 @@
+import { KeyboardAction, KeyboardConfig } from "./types"
+
+/**
+ * YouTube-style default bindings
+ */
+const DEFAULT_BINDINGS: Record<KeyboardAction, string[]> = {
+	togglePlay: [" ", "k"],
+	skipBackward: ["j"],
+	skipForward: ["l"],
+	seekBackward: ["ArrowLeft"],
+	seekForward: ["ArrowRight"],
+	volumeUp: ["ArrowUp"],
+	volumeDown: ["ArrowDown"],
+	toggleMute: ["m"],
+	toggleFullscreen: ["f"],
+	toggleSubtitles: ["c"],
+	speedDown: ["<"],
+	speedUp: [">"],
+	seekToStart: ["Home"],
+	seekToEnd: ["End"],
+	showHelp: ["?"],
+}
+
+/**
+ * Descriptions shown in the shortcut help overlay, in display order ({s} is replaced by the step in seconds)
+ */
+const ACTION_LABELS: Record<KeyboardAction, string> = {
+	togglePlay: "Play / pause",
+	skipBackward: "Rewind {s} seconds",
+	skipForward: "Fast forward {s} seconds",
+	seekBackward: "Rewind {s} seconds",
+	seekForward: "Fast forward {s} seconds",
+	volumeUp: "Volume up",
+	volumeDown: "Volume down",
+	toggleMute: "Mute / unmute",
+	toggleFullscreen: "Fullscreen",
+	toggleSubtitles: "Subtitles on / off",
+	speedDown: "Decrease playback speed",
+	speedUp: "Increase playback speed",
+	seekToStart: "Go to start",
+	seekToEnd: "Go to end",
+	showHelp: "Show keyboard shortcuts",
+}
+
+/**
+ * KeyboardShortcuts - Maps key presses to player actions
+ */
+export class KeyboardShortcuts {
+	private config: KeyboardConfig
+	private actions: Map<string, KeyboardAction> = new Map()
+
+	constructor(config?: KeyboardConfig) {
+		this.config = { ...config }
+
+		// Defaults go in first, so a key the user reassigns is taken from its default action
+		const custom = config?.bindings ?? {}
+		;(Object.keys(DEFAULT_BINDINGS) as KeyboardAction[]).forEach((action) => {
+			if (!custom[action]) this.bind(action, DEFAULT_BINDINGS[action])
+		})
+		;(Object.keys(custom) as KeyboardAction[]).forEach((action) => this.bind(action, custom[action] ?? []))
+	}
+
+	public isEnabled(): boolean {
+		return this.config.enabled !== false
+	}
+
+	/**
+	 * Action bound to a key press, or null. Presses with Ctrl, Alt or Meta are left to the browser.
+	 */
+	public getAction(event: KeyboardEvent): KeyboardAction | null {
+		if (event.ctrlKey || event.altKey || event.metaKey) return null
+		return this.actions.get(this.normalizeKey(event.key)) ?? null
+	}
+
+	public hasNumberKeys(): boolean {
+		return this.config.numberKeys !== false
+	}
+
+	/**
+	 * Fraction of the video a number key seeks to (0-0.9), or null
+	 */
+	public getSeekFraction(event: KeyboardEvent): number | null {
+		if (!this.hasNumberKeys() || event.ctrlKey || event.altKey || event.metaKey) return null
+		return /^[0-9]$/.test(event.key) ? parseInt(event.key, 10) / 10 : null
+	}
+
+	/**
+	 * Keys bound to each action, for the help overlay
+	 */
+	public getBindings(): { action: KeyboardAction; label: string; keys: string[] }[] {
+		return (Object.keys(ACTION_LABELS) as KeyboardAction[])
+			.map((action) => ({
+				action,
+				label: ACTION_LABELS[action].replace("{s}", String(action.startsWith("skip") ? this.getSkipSeconds() : this.getSeekSeconds())),
+				keys: Array.from(this.actions.entries())
+					.filter(([, bound]) => bound === action)
+					.map(([key]) => key),
+			}))
+			.filter(({ keys }) => keys.length > 0)
+	}
+
+	public getSkipSeconds(): number {
+		return this.config.skipSeconds ?? 10
+	}
+
+	public getSeekSeconds(): number {
+		return this.config.seekSeconds ?? 5
+	}
+
+	public getVolumeStep(): number {
+		return this.config.volumeStep ?? 0.05
+	}
+
+	private bind(action: KeyboardAction, keys: string[]): void {
+		keys.forEach((key) => this.actions.set(this.normalizeKey(key), action))
+	}
+
+	// Letters match regardless of Shift/Caps Lock
+	private normalizeKey(key: string): string {
+		return key.length === 1 ? key.toLowerCase() : key
+	}
+}
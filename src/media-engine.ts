@@ -0,0 +1,63 @@
+import { MediaEngine, MediaEngineEventArgs, MediaEngineEventMap, MediaTrack, QualityLevel } from "./types"
+
+/**
+ * BaseMediaEngine - Event plumbing and no-op defaults for media engines
+ * Extend this to write a custom engine; only load() and destroy() are required.
+ */
+export abstract class BaseMediaEngine implements MediaEngine {
+	public abstract readonly name: string
+	private listeners: Map<keyof MediaEngineEventMap, Set<(data: any) => void>> = new Map()
+
+	public abstract load(url: string): void | Promise<void>
+
+	public destroy(): void {
+		this.listeners.clear()
+	}
+
+	public getLevels(): QualityLevel[] {
+		return []
+	}
+
+	public getCurrentLevel(): number {
+		return -1
+	}
+
+	public setCurrentLevel(index: number): void {}
+
+	public getAudioTracks(): MediaTrack[] {
+		return []
+	}
+
+	public getAudioTrack(): number {
+		return -1
+	}
+
+	public setAudioTrack(id: number): void {}
+
+	public getTextTracks(): MediaTrack[] {
+		return []
+	}
+
+	public getTextTrack(): number {
+		return -1
+	}
+
+	public setTextTrack(id: number): void {}
+
+	public on<K extends keyof MediaEngineEventMap>(type: K, callback: (data: MediaEngineEventMap[K]) => void): void {
+		if (!this.listeners.has(type)) {
+			this.listeners.set(type, new Set())
+		}
+		this.listeners.get(type)!.add(callback)
+	}
+
+	public off<K extends keyof MediaEngineEventMap>(type: K, callback: (data: MediaEngineEventMap[K]) => void): void {
+		this.listeners.get(type)?.delete(callback)
+	}
+
+	protected emit<K extends keyof MediaEngineEventMap>(type: K, ...args: MediaEngineEventArgs<K>): void {
+		this.listeners.get(type)?.forEach((callback) => {
+			callback(args[0])
+		})
+	}
+}
@@ -0,0 +1,121 @@
+import { MediaSessionMetadata } from "./types"
+
+/**
+ * Actions the player performs for lock-screen and hardware media keys
+ */
+export interface MediaSessionHandlers {
+	play(): void
+	pause(): void
+	seekBy(offset: number): void
+	seekTo(time: number): void
+	previous(): void
+	next(): void
+	hasPrevious(): boolean
+	hasNext(): boolean
+}
+
+// The player currently holding the page's media session
+let owner: MediaSessionController | null = null
+
+/**
+ * MediaSessionController - Publishes metadata and position to navigator.mediaSession
+ * and routes its actions back to the player. The session is shared by the whole page,
+ * so a player only takes it over once it starts playing.
+ */
+export class MediaSessionController {
+	private enabled: boolean
+	private handlers: MediaSessionHandlers
+	private metadata: MediaSessionMetadata = {}
+
+	constructor(enabled: boolean, handlers: MediaSessionHandlers) {
+		this.enabled = enabled && typeof navigator !== "undefined" && "mediaSession" in navigator
+		this.handlers = handlers
+	}
+
+	/**
+	 * Take over the page's media session (called when this player starts playing)
+	 */
+	public activate(): void {
+		if (!this.enabled) return
+		owner = this
+		this.applyMetadata()
+		this.updateActions()
+	}
+
+	public setMetadata(metadata: MediaSessionMetadata): void {
+		this.metadata = metadata
+		if (this.active) {
+			this.applyMetadata()
+			this.updateActions()
+		}
+	}
+
+	public setPlaybackState(state: MediaSessionPlaybackState): void {
+		if (!this.active) return
+		navigator.mediaSession.playbackState = state
+	}
+
+	public updatePosition(position: number, duration: number, playbackRate: number): void {
+		if (!this.active || !navigator.mediaSession.setPositionState) return
+		if (!(duration > 0) || !(playbackRate > 0) || position < 0 || position > duration) return
+
+		try {
+			navigator.mediaSession.setPositionState({ duration, playbackRate, position })
+		} catch (error) {
+			console.warn("WontumPlayer: Failed to update media session position:", error)
+		}
+	}
+
+	/**
+	 * Previous/next track actions are only offered when there is somewhere to go
+	 */
+	public updateActions(): void {
+		if (!this.active) return
+
+		this.setAction("play", () => this.handlers.play())
+		this.setAction("pause", () => this.handlers.pause())
+		this.setAction("seekbackward", (details) => this.handlers.seekBy(-(details.seekOffset ?? 10)))
+		this.setAction("seekforward", (details) => this.handlers.seekBy(details.seekOffset ?? 10))
+		this.setAction("seekto", (details) => {
+			if (details.seekTime !== undefined) this.handlers.seekTo(details.seekTime)
+		})
+		this.setAction("previoustrack", this.handlers.hasPrevious() ? () => this.handlers.previous() : null)
+		this.setAction("nexttrack", this.handlers.hasNext() ? () => this.handlers.next() : null)
+	}
+
+	/**
+	 * Release the media session - left alone if another player has taken it over since
+	 */
+	public destroy(): void {
+		if (!this.active) return
+		owner = null
+
+		const actions: MediaSessionAction[] = ["play", "pause", "seekbackward", "seekforward", "seekto", "previoustrack", "nexttrack"]
+		actions.forEach((action) => this.setAction(action, null))
+		navigator.mediaSession.metadata = null
+		navigator.mediaSession.playbackState = "none"
+	}
+
+	private get active(): boolean {
+		return owner === this
+	}
+
+	private applyMetadata(): void {
+		const { title, artist, album, artwork } = this.metadata
+		navigator.mediaSession.metadata = new MediaMetadata({
+			title: title ?? "",
+			artist: artist ?? "",
+			album: album ?? "",
+			artwork: artwork ?? [],
+		})
+	}
+
+	// Browsers throw for actions they don't support
+	private setAction(action: MediaSessionAction, handler: MediaSessionActionHandler | null): void {
+		try {
+			navigator.mediaSession.setActionHandler(action, handler)
+		} catch {
+			// Unsupported action
+		}
+	}
+}
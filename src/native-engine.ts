@@ -0,0 +1,149 @@
+import { MediaEngineContext, MediaEngineFactory, MediaTrack } from "./types"
+import { BaseMediaEngine } from "./media-engine"
+
+/**
+ * Safari's AudioTrack/AudioTrackList - not part of TypeScript's DOM typings
+ */
+interface NativeAudioTrack {
+	readonly label: string
+	readonly language: string
+	readonly kind: string
+	enabled: boolean
+}
+
+interface NativeAudioTrackList extends EventTarget {
+	readonly length: number
+	[index: number]: NativeAudioTrack
+}
+
+/**
+ * NativeEngine - Plays sources directly on the video element
+ * Covers native HLS (Safari, iOS) and progressive MP4/WebM files.
+ */
+export class NativeEngine extends BaseMediaEngine {
+	public readonly name = "native"
+	private videoElement: HTMLVideoElement
+
+	constructor(context: MediaEngineContext) {
+		super()
+		this.videoElement = context.videoElement
+	}
+
+	public load(url: string): void {
+		this.videoElement.addEventListener("loadedmetadata", this.handleLoadedMetadata)
+		const audioTracks = this.getAudioTrackList()
+		if (audioTracks) {
+			audioTracks.addEventListener("addtrack", this.handleAudioTracksUpdated)
+			audioTracks.addEventListener("removetrack", this.handleAudioTracksUpdated)
+			audioTracks.addEventListener("change", this.handleAudioTrackChange)
+		}
+		this.videoElement.src = url
+	}
+
+	public destroy(): void {
+		this.videoElement.removeEventListener("loadedmetadata", this.handleLoadedMetadata)
+		const audioTracks = this.getAudioTrackList()
+		if (audioTracks) {
+			audioTracks.removeEventListener("addtrack", this.handleAudioTracksUpdated)
+			audioTracks.removeEventListener("removetrack", this.handleAudioTracksUpdated)
+			audioTracks.removeEventListener("change", this.handleAudioTrackChange)
+		}
+		this.videoElement.removeAttribute("src")
+		this.videoElement.load()
+		super.destroy()
+	}
+
+	public getAudioTracks(): MediaTrack[] {
+		const audioTracks = this.getAudioTrackList()
+		if (!audioTracks) return []
+
+		const tracks: MediaTrack[] = []
+		for (let i = 0; i < audioTracks.length; i++) {
+			const track = audioTracks[i]
+			tracks.push({
+				id: i,
+				name: track.label || track.language || `Track ${i + 1}`,
+				language: track.language || undefined,
+				default: track.kind === "main",
+			})
+		}
+		return tracks
+	}
+
+	public getAudioTrack(): number {
+		const audioTracks = this.getAudioTrackList()
+		if (!audioTracks) return -1
+
+		for (let i = 0; i < audioTracks.length; i++) {
+			if (audioTracks[i].enabled) return i
+		}
+		return -1
+	}
+
+	public setAudioTrack(id: number): void {
+		const audioTracks = this.getAudioTrackList()
+		if (!audioTracks || id < 0 || id >= audioTracks.length) return
+
+		// Only one audio track may be enabled at a time
+		for (let i = 0; i < audioTracks.length; i++) {
+			audioTracks[i].enabled = i === id
+		}
+	}
+
+	/**
+	 * Subtitles declared in a natively played HLS manifest - text tracks not backed by a <track> element
+	 */
+	public getTextTracks(): MediaTrack[] {
+		return this.getManifestTextTracks().map(({ track, id }) => ({
+			id,
+			name: track.label || track.language || `Track ${id + 1}`,
+			language: track.language || undefined,
+		}))
+	}
+
+	public getTextTrack(): number {
+		return this.getManifestTextTracks().find(({ track }) => track.mode === "showing")?.id ?? -1
+	}
+
+	public setTextTrack(id: number): void {
+		this.getManifestTextTracks().forEach(({ track, id: trackId }) => {
+			track.mode = trackId === id ? "showing" : "disabled"
+		})
+	}
+
+	private getManifestTextTracks(): { track: TextTrack; id: number }[] {
+		const sideloaded = new Set(Array.from(this.videoElement.querySelectorAll("track")).map((element) => element.track))
+		return Array.from(this.videoElement.textTracks)
+			.map((track, id) => ({ track, id }))
+			.filter(({ track }) => !sideloaded.has(track) && (track.kind === "subtitles" || track.kind === "captions"))
+	}
+
+	private getAudioTrackList(): NativeAudioTrackList | null {
+		return (this.videoElement as HTMLVideoElement & { audioTracks?: NativeAudioTrackList }).audioTracks ?? null
+	}
+
+	// Native HLS reports an infinite duration for live streams
+	private handleLoadedMetadata = (): void => {
+		this.emit("live", { live: this.videoElement.duration === Infinity })
+	}
+
+	private handleAudioTracksUpdated = (): void => {
+		this.emit("audiotracks", { tracks: this.getAudioTracks() })
+	}
+
+	private handleAudioTrackChange = (): void => {
+		this.emit("audiotrackswitched", { id: this.getAudioTrack() })
+	}
+}
+
+export const nativeEngineFactory: MediaEngineFactory = {
+	name: "native",
+	canPlay: (sourceType, mimeType, videoElement) => {
+		if (sourceType === "hls") {
+			return videoElement.canPlayType("application/vnd.apple.mpegurl") !== ""
+		}
+		// Unknown progressive types are left to the browser to try
+		return !mimeType || videoElement.canPlayType(mimeType) !== ""
+	},
+	create: (context) => new NativeEngine(context),
+}
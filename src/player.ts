@@ -1,8 +1,43 @@
-import Hls from "hls.js"
-import { WontumPlayerConfig, PlayerState, PlayerEvent, PlayerEventType, QualityLevel } from "./types"
+import { WontumPlayerConfig, PlayerState, PlayerEvent, PlayerEventType, PlayerEventArgs, PlayerEventCallback, QualityLevel, PlaylistItem, RepeatMode, SubtitleTrack, Chapter, WontumPlugin, RecoveryAction, VideoSource, MediaEngine, MediaErrorKind, MediaTrack, TimeRange, SubtitleTrackInfo, PlaybackStats, Thumbnail, PlaybackStatus, MediaSessionMetadata, Checkpoint, CuePoint } from "./types"
 import { Analytics } from "./analytics"
 import { UIController } from "./ui-controller"
 import { S3Handler } from "./s3-handler"
+import { ResumeManager } from "./resume"
+import { Playlist } from "./playlist"
+import { fetchVtt } from "./vtt"
+import { parseThumbnails } from "./thumbnails"
+import { PluginManager } from "./plugins"
+import { WontumError } from "./errors"
+import { RecoveryPolicy } from "./recovery"
+import { AbrController } from "./abr"
+import { PlaybackStateMachine } from "./state-machine"
+import { MediaSessionController } from "./media-session"
+import { CheckpointManager } from "./checkpoints"
+import { CuePointManager } from "./cue-points"
+import { WatchedRangeTracker } from "./watched-ranges"
+import { SourceList } from "./sources"
+import { detectSourceType, mimeTypeFromUrl, SourceType } from "./source-type"
+import { MediaEngineRegistry } from "./engine-registry"
+import { HlsJsEngine } from "./hls-engine"
+
+/**
+ * Prefixed fullscreen APIs (older Safari) - not part of TypeScript's DOM typings
+ */
+interface WebkitFullscreenDocument extends Document {
+	webkitFullscreenElement?: Element | null
+	webkitExitFullscreen?: () => Promise<void> | void
+}
+
+interface WebkitFullscreenElement extends HTMLElement {
+	webkitRequestFullscreen?: () => Promise<void> | void
+}
+
+// iPhone Safari can only fullscreen the video element itself
+interface WebkitFullscreenVideoElement extends HTMLVideoElement {
+	webkitEnterFullscreen?: () => void
+	webkitExitFullscreen?: () => void
+	webkitDisplayingFullscreen?: boolean
+}
 
 /**
  * WontumPlayer - A modern HLS video player for educational platforms
@@ -10,15 +45,47 @@ import { S3Handler } from "./s3-handler"
 export class WontumPlayer {
 	private container: HTMLElement
 	private videoElement: HTMLVideoElement
-	private hls: Hls | null = null
+	private engine: MediaEngine | null = null
+	// Incremented per loadSource() call, so a load overtaken by a newer one can bail out after each await
+	private loadGeneration = 0
 	private config: WontumPlayerConfig
-	private eventListeners: Map<PlayerEventType, Set<(event: PlayerEvent) => void>> = new Map()
+	private eventListeners: Map<PlayerEventType, Set<PlayerEventCallback<any>>> = new Map()
 	public analytics: Analytics
 	private s3Handler: S3Handler
 	private uiController: UIController
+	private resumeManager: ResumeManager
+	private pluginManager: PluginManager
+	private recovery: RecoveryPolicy
+	private stateMachine: PlaybackStateMachine
+	private mediaSession: MediaSessionController
+	private checkpoints: CheckpointManager
+	private activeCheckpoint: Checkpoint | null = null
+	private cuePoints: CuePointManager = new CuePointManager()
+	private watched: WatchedRangeTracker
+	// Playhead at the previous timeupdate, to detect checkpoints and cue points played through
+	private lastPlayhead = -1
+	// The playhead jumped since the last timeupdate, so lastPlayhead itself hasn't been crossed yet
+	private playheadSeeked = false
+	private recoveryTimeout: number | null = null
+	private playlist: Playlist | null = null
+	private sourceList: SourceList | null = null
+	private videoId: string | undefined
+	private chapters: Chapter[] = []
+	private currentChapterIndex = -1
 	private qualities: QualityLevel[] = []
+	private thumbnails: Thumbnail[] = []
+	private loopRange: TimeRange | null = null
+	private abr: AbrController
+	// Manually selected quality level, -1 for automatic
+	private selectedQuality = -1
+	private resizeObserver: ResizeObserver | null = null
+	// Level being played and switch count, for getStats()
+	private playingLevel = -1
+	private levelSwitches = 0
+	private sourceType: SourceType | null = null
 
 	private state: PlayerState = {
+		status: "idle",
 		playing: false,
 		paused: true,
 		ended: false,
@@ -31,6 +98,10 @@ export class WontumPlayer {
 		quality: "auto",
 		availableQualities: [],
 		fullscreen: false,
+		audioTrack: -1,
+		availableAudioTracks: [],
+		live: false,
+		atLiveEdge: false,
 	}
 
 	constructor(config: WontumPlayerConfig) {
@@ -46,6 +117,23 @@ export class WontumPlayer {
 		// Initialize components
 		this.analytics = new Analytics(config.analytics)
 		this.s3Handler = new S3Handler(config.s3Config)
+		this.resumeManager = new ResumeManager(config.resume)
+		this.recovery = new RecoveryPolicy(config.recovery)
+		this.stateMachine = new PlaybackStateMachine((from, to) => this.handleStatusChange(from, to))
+		this.abr = new AbrController(config.abr)
+		this.mediaSession = new MediaSessionController(config.mediaSession !== false, {
+			play: () => this.play().catch(() => {}),
+			pause: () => this.pause(),
+			seekBy: (offset) => (offset < 0 ? this.skipBackward(-offset) : this.skipForward(offset)),
+			seekTo: (time) => this.seek(time),
+			previous: () => this.previous(),
+			next: () => this.next(),
+			hasPrevious: () => this.playlist?.getPreviousIndex() != null,
+			hasNext: () => this.playlist?.getNextIndex() != null,
+		})
+		this.checkpoints = new CheckpointManager(config.checkpoints?.items)
+		this.watched = new WatchedRangeTracker(config.completion)
+		this.videoId = config.analytics?.videoId
 
 		// Create video element
 		this.videoElement = this.createVideoElement()
@@ -56,25 +144,66 @@ export class WontumPlayer {
 
 		// Setup player
 		this.setupVideoListeners()
-
-		// Load source if provided
-		if (config.src) {
-			this.loadSource(config.src)
+		this.observePlayerSize()
+
+		// Install plugins before the first source loads so they see onSourceLoad
+		this.pluginManager = new PluginManager({
+			player: this,
+			container: this.container,
+			videoElement: this.videoElement,
+			getHls: () => (this.engine instanceof HlsJsEngine ? this.engine.getHls() : null),
+			getEngine: () => this.engine,
+			on: this.on.bind(this),
+			off: this.off.bind(this),
+			emit: this.emit.bind(this),
+			getSlot: (name) => this.uiController.getSlot(name),
+		})
+		config.plugins?.forEach((plugin) => this.pluginManager.install(plugin))
+
+		// Load the first playlist item, or the source if provided
+		if (config.playlist && config.playlist.items.length > 0) {
+			this.playlist = new Playlist(config.playlist)
+			this.loadPlaylistItem(this.playlist.getCurrentIndex(), false).catch((error) => this.handleError(WontumError.from(error)))
+		} else if (config.sources && config.sources.length > 0) {
+			this.sourceList = new SourceList(config.sources)
+			const source = this.sourceList.getCurrent()!
+			this.config.src = source.src
+			this.config.type = source.type
+			this.loadSource(source.src, source.type)
+		} else if (config.src) {
+			this.loadSource(config.src, config.type)
 		}
 
 		// Apply initial config
 		if (config.autoplay) this.videoElement.autoplay = true
 		if (config.muted) this.mute()
-		if (config.poster) this.videoElement.poster = config.poster
 		if (config.preload) this.videoElement.preload = config.preload
 
-		// Add subtitle tracks
-		if (config.subtitles) {
-			this.addSubtitleTracks(config.subtitles)
+		if (config.chapters) {
+			this.loadChapters(config.chapters)
+		}
+
+		if (config.thumbnails) {
+			this.loadThumbnails(config.thumbnails)
+		}
+
+		if (config.cuePoints) {
+			this.loadCuePoints(config.cuePoints)
+		}
+
+		// Playlist items apply their own poster, subtitles and metadata
+		if (!this.playlist) {
+			if (config.poster) this.videoElement.poster = config.poster
+			this.mediaSession.setMetadata(this.getMediaSessionMetadata())
+
+			// Add subtitle tracks
+			if (config.subtitles) {
+				this.addSubtitleTracks(config.subtitles)
+			}
 		}
 	}
 
-	private addSubtitleTracks(subtitles: any[]): void {
+	private addSubtitleTracks(subtitles: SubtitleTrack[]): void {
 		subtitles.forEach((subtitle) => {
 			const track = document.createElement("track")
 			track.kind = "subtitles"
@@ -102,35 +231,63 @@ export class WontumPlayer {
 	private setupVideoListeners(): void {
 		// Playback events
 		this.videoElement.addEventListener("play", () => {
-			this.state.playing = true
-			this.state.paused = false
+			// Replaying a finished clip starts it over, like a finished video
+			const clip = this.getClipRange()
+			if (clip && this.videoElement.currentTime >= clip.end) {
+				this.seek(clip.start)
+			}
+
+			this.stateMachine.transition("playing")
+			// The most recently played player owns the page's media session
+			this.mediaSession.activate()
+			this.mediaSession.setPlaybackState("playing")
+			this.updateMediaSessionPosition()
 			this.emit("play")
 			this.analytics.trackEvent("play", this.getAnalyticsData())
 		})
 
 		this.videoElement.addEventListener("pause", () => {
-			this.state.playing = false
-			this.state.paused = true
+			// Pausing the outgoing source during a source change isn't a viewer pause
+			if (!this.stateMachine.is("loading")) {
+				this.stateMachine.transition("paused")
+			}
+			this.mediaSession.setPlaybackState("paused")
 			this.emit("pause")
 			this.analytics.trackEvent("pause", this.getAnalyticsData())
+			this.resumeManager.save(this.videoElement.currentTime, this.state.duration)
+			this.recordWatched()
+			this.watched.save()
 		})
 
 		this.videoElement.addEventListener("ended", () => {
-			this.state.ended = true
-			this.state.playing = false
-			this.emit("ended")
-			this.analytics.trackEvent("ended", this.getAnalyticsData())
+			this.handleEnded()
 		})
 
 		this.videoElement.addEventListener("timeupdate", () => {
 			this.state.currentTime = this.videoElement.currentTime
+			if (this.enforcePlaybackRange()) return
+			this.handlePlayheadAdvance()
 			this.emit("timeupdate", { currentTime: this.state.currentTime })
+			this.updateMediaSessionPosition()
+			this.resumeManager.update(this.state.currentTime, this.state.duration)
+			this.updateCurrentChapter()
+			this.updateLiveEdge()
 		})
 
 		this.videoElement.addEventListener("loadedmetadata", () => {
 			this.state.duration = this.videoElement.duration
+			if (this.stateMachine.is("loading")) {
+				this.stateMachine.transition("ready")
+			}
 			this.emit("loadedmetadata", { duration: this.state.duration })
 			this.analytics.trackEvent("loadedmetadata", this.getAnalyticsData())
+
+			const clip = this.getClipRange()
+			if (clip && this.videoElement.currentTime < clip.start) {
+				this.seek(clip.start)
+			}
+
+			this.restoreResumePosition()
 		})
 
 		this.videoElement.addEventListener("volumechange", () => {
@@ -142,33 +299,49 @@ export class WontumPlayer {
 		this.videoElement.addEventListener("ratechange", () => {
 			this.state.playbackRate = this.videoElement.playbackRate
 			this.emit("ratechange", { playbackRate: this.state.playbackRate })
+			this.updateMediaSessionPosition()
 		})
 
 		this.videoElement.addEventListener("waiting", () => {
-			this.state.buffering = true
+			this.stateMachine.transition("buffering")
 			this.emit("waiting")
 			this.analytics.trackEvent("buffering_start", this.getAnalyticsData())
 		})
 
 		this.videoElement.addEventListener("canplay", () => {
-			this.state.buffering = false
+			if (this.stateMachine.is("buffering")) {
+				this.settleStatus()
+			}
 			this.emit("canplay")
 			this.analytics.trackEvent("buffering_end", this.getAnalyticsData())
 		})
 
 		this.videoElement.addEventListener("seeking", () => {
+			this.stateMachine.transition("seeking")
 			this.emit("seeking")
 		})
 
 		this.videoElement.addEventListener("seeked", () => {
+			this.lastPlayhead = this.videoElement.currentTime
+			this.playheadSeeked = true
+			this.settleStatus()
 			this.emit("seeked", { currentTime: this.state.currentTime })
 			this.analytics.trackEvent("seeked", this.getAnalyticsData())
 		})
 
-		this.videoElement.addEventListener("error", (e) => {
-			const error = this.videoElement.error
-			this.emit("error", { error })
-			this.analytics.trackEvent("error", { ...this.getAnalyticsData(), error: error?.message })
+		this.videoElement.addEventListener("error", () => {
+			// Engines with their own recovery (hls.js) report the same failure through their error event
+			// and may still recover from it - only the native engine relies on the element's error
+			if (this.engine?.recoverMediaError) {
+				console.warn("WontumPlayer: Video element error, left to the engine's recovery:", this.videoElement.error)
+				return
+			}
+
+			const src = this.config.src
+			const signed = !!src && this.s3Handler.isSigned(src)
+			// Sign again on retry in case the signature expired
+			if (signed) this.s3Handler.invalidate(src!)
+			this.handleError(WontumError.fromMediaError(this.videoElement.error, signed || !!this.sourceList?.hasNext()))
 		})
 
 		// Additional HTML5 MediaElement events (Mux Player compatible)
@@ -185,16 +358,22 @@ export class WontumPlayer {
 		})
 
 		this.videoElement.addEventListener("playing", () => {
-			this.state.playing = true
-			this.state.buffering = false
+			this.stateMachine.transition("playing")
+			this.recovery.resetMedia()
 			this.emit("playing")
 		})
 
 		this.videoElement.addEventListener("durationchange", () => {
 			this.state.duration = this.videoElement.duration
 			this.emit("durationchange", { duration: this.state.duration })
+			this.updateMediaSessionPosition()
 		})
 
+		document.addEventListener("fullscreenchange", this.handleFullscreenChange)
+		document.addEventListener("webkitfullscreenchange", this.handleFullscreenChange)
+		this.videoElement.addEventListener("webkitbeginfullscreen", this.handleFullscreenChange)
+		this.videoElement.addEventListener("webkitendfullscreen", this.handleFullscreenChange)
+
 		this.videoElement.addEventListener("progress", () => {
 			this.emit("progress", { buffered: this.videoElement.buffered })
 		})
@@ -223,7 +402,10 @@ export class WontumPlayer {
 		})
 	}
 
-	private async loadSource(src: string): Promise<void> {
+	private async loadSource(src: string, type?: string, restorePosition = true): Promise<void> {
+		const generation = ++this.loadGeneration
+		const superseded = () => generation !== this.loadGeneration
+
 		try {
 			// Validate source
 			if (!src || src.trim() === "") {
@@ -231,322 +413,1576 @@ export class WontumPlayer {
 				return
 			}
 
+			this.stateMachine.transition("loading")
+			// Failover and retry switch URLs for the same video - key saved progress by the primary source
+			const contentSrc = this.sourceList?.getSources()[0]?.src ?? src
+			this.resumeManager.prepare(contentSrc, this.videoId, restorePosition)
+			this.watched.load(contentSrc, this.videoId).catch((error) => {
+				console.warn("WontumPlayer: Failed to load watched ranges:", error)
+			})
+
 			// Check if URL needs S3 presigning
 			const videoUrl = await this.s3Handler.processUrl(src)
+			if (superseded()) return
+
+			// Check if credentials should be enabled (for CloudFront signed cookies)
+			const withCredentials = this.config.s3Config?.withCredentials ?? false
+
+			this.qualities = []
+			this.selectedQuality = -1
+			this.state.quality = "auto"
+			this.playingLevel = -1
+			this.levelSwitches = 0
+			this.state.audioTrack = -1
+			this.state.availableAudioTracks = []
+			this.setLive(false)
+			this.closeCheckpoint()
+			this.lastPlayhead = -1
+			this.playheadSeeked = false
+			const sourceType = await detectSourceType(videoUrl, type, withCredentials)
+			if (superseded()) return
+			this.sourceType = sourceType
+
+			const mimeType = type || mimeTypeFromUrl(videoUrl)
+			const factory = MediaEngineRegistry.select(this.sourceType, mimeType, this.videoElement, this.config.engines)
+			if (!factory) {
+				const format = this.sourceType === "hls" ? "HLS" : mimeType || "This video format"
+				throw new WontumError("UNSUPPORTED", `${format} is not supported in this browser`, { recoverable: false })
+			}
+
+			// Only one engine may drive the video element
+			this.teardownEngine()
+			const engine = factory.create({ videoElement: this.videoElement, config: this.config })
+			this.engine = engine
+			this.recovery.reset()
 
-			// Check if HLS is supported
-			if (Hls.isSupported()) {
-				// Check if credentials should be enabled (for CloudFront signed cookies)
-				const withCredentials = this.config.s3Config?.withCredentials ?? false
-
-				// Merge user's HLS config with credential settings
-				const hlsConfig = {
-					...this.config.hlsConfig,
-					xhrSetup: (xhr: XMLHttpRequest, url: string) => {
-						// Enable credentials if configured
-						if (withCredentials) {
-							xhr.withCredentials = true
-						}
-						if (this.config.hlsConfig?.xhrSetup) {
-							this.config.hlsConfig.xhrSetup(xhr, url)
-						}
-					},
+			engine.on("levels", ({ levels }) => {
+				this.qualities = levels
+				this.applyAbrConstraints()
+				this.restorePreferredQuality(engine)
+			})
+
+			engine.on("levelswitched", ({ level }) => {
+				// The initial level selection isn't a switch
+				if (this.playingLevel !== -1 && level !== this.playingLevel) this.levelSwitches++
+				this.playingLevel = level
+
+				const quality = engine.getLevels()[level]
+				if (quality) {
+					this.state.quality = quality.name
+					this.emit("qualitychange", { quality: this.state.quality, level })
 				}
+			})
 
-				this.hls = new Hls(hlsConfig)
-
-				this.hls.loadSource(videoUrl)
-				this.hls.attachMedia(this.videoElement)
-
-				this.hls.on(Hls.Events.MANIFEST_PARSED, (event, data) => {
-					const qualities = this.extractQualities(data.levels)
-					this.qualities = qualities
-				})
-
-				this.hls.on(Hls.Events.LEVEL_SWITCHED, (event, data) => {
-					const level = this.hls?.levels[data.level]
-					if (level) {
-						this.state.quality = `${level.height}p`
-						this.emit("qualitychange", { quality: this.state.quality })
-					}
-				})
-
-				this.hls.on(Hls.Events.ERROR, (event, data) => {
-					if (data.fatal) {
-						this.handleHlsError(data)
-					}
-				})
-			} else if (this.videoElement.canPlayType("application/vnd.apple.mpegurl")) {
-				// Native HLS support (Safari)
-				this.videoElement.src = videoUrl
-			} else {
-				throw new Error("HLS is not supported in this browser")
+			// Media is arriving again - network recovery succeeded
+			engine.on("buffered", () => {
+				this.recovery.resetNetwork()
+			})
+
+			engine.on("live", ({ live }) => {
+				this.setLive(live)
+			})
+
+			engine.on("audiotracks", ({ tracks }) => {
+				this.state.availableAudioTracks = tracks
+				this.state.audioTrack = engine.getAudioTrack()
+			})
+
+			engine.on("audiotrackswitched", ({ id }) => {
+				if (id === this.state.audioTrack) return
+				this.state.audioTrack = id
+				const track = this.state.availableAudioTracks.find((t) => t.id === id) || null
+				this.emit("audiotrackchange", { id, track })
+				this.analytics.trackEvent("audio_track_change", { ...this.getAnalyticsData(), language: track?.language, name: track?.name })
+			})
+
+			engine.on("error", ({ error, kind }) => {
+				this.handleEngineError(error, kind)
+			})
+
+			await engine.load(videoUrl)
+			if (superseded()) {
+				// A newer load replaces this.engine (destroying this one) unless it hasn't got that far yet
+				if (this.engine === engine) this.teardownEngine()
+				return
 			}
+
+			this.pluginManager.notifySourceLoad(src)
 		} catch (error) {
+			if (superseded()) return
 			console.error("Failed to load video source:", error)
-			this.emit("error", { error })
+			this.handleError(WontumError.from(error))
 		}
 	}
 
-	private extractQualities(levels: any[]): QualityLevel[] {
-		return levels.map((level) => ({
-			height: level.height,
-			width: level.width,
-			bitrate: level.bitrate,
-			name: `${level.height}p`,
-		}))
-	}
+	/**
+	 * Recover from fatal media engine errors according to the recovery policy
+	 */
+	private handleEngineError(error: WontumError, kind: MediaErrorKind): void {
+		const engine = this.engine
+
+		switch (kind) {
+			case "network": {
+				// A missing manifest won't come back by retrying - switch CDN straight away
+				if (error.code === "NETWORK_MANIFEST" && this.sourceList?.hasNext()) {
+					this.teardownEngine()
+					this.handleError(error)
+					return
+				}
+
+				const attempt = this.recovery.nextNetworkAttempt()
+				if (attempt === null) {
+					this.failRecovery(error)
+					return
+				}
 
-	private handleHlsError(data: any): void {
-		switch (data.type) {
-			case Hls.ErrorTypes.NETWORK_ERROR:
-				console.error("Network error occurred")
-				this.hls?.startLoad()
+				if (this.recovery.shouldResign(error)) {
+					this.scheduleRecovery(error, attempt, "resign", () => this.reloadManifest(true))
+				} else if (error.code === "NETWORK_MANIFEST") {
+					// startLoad() doesn't retry a manifest that never loaded
+					this.scheduleRecovery(error, attempt, "reload", () => this.reloadManifest(false))
+				} else {
+					this.scheduleRecovery(error, attempt, "reload", () => engine?.startLoad?.())
+				}
 				break
-			case Hls.ErrorTypes.MEDIA_ERROR:
-				console.error("Media error occurred")
-				this.hls?.recoverMediaError()
+			}
+			case "media": {
+				const attempt = this.recovery.nextMediaAttempt()
+				if (attempt === null) {
+					this.failRecovery(error)
+					return
+				}
+
+				if (this.recovery.shouldSwapAudioCodec(attempt)) {
+					this.scheduleRecovery(error, attempt, "swapAudioCodec", () => {
+						engine?.swapAudioCodec?.()
+						engine?.recoverMediaError?.()
+					})
+				} else {
+					this.scheduleRecovery(error, attempt, "recoverMedia", () => engine?.recoverMediaError?.())
+				}
 				break
+			}
 			default:
-				console.error("Fatal error occurred:", data)
-				this.destroy()
+				// Not recoverable by the engine - tear down only the engine so the UI can offer a retry
+				this.teardownEngine()
+				this.handleError(error)
 				break
 		}
 	}
 
-	private getAnalyticsData(): Record<string, any> {
-		return {
-			currentTime: this.state.currentTime,
-			duration: this.state.duration,
-			quality: this.state.quality,
-			playbackRate: this.state.playbackRate,
-			volume: this.state.volume,
-			muted: this.state.muted,
-		}
-	}
+	private scheduleRecovery(error: WontumError, attempt: number, action: RecoveryAction, recover: () => void | Promise<void>): void {
+		const maxAttempts = this.recovery.getMaxAttempts()
+		const delay = this.recovery.getDelay(attempt)
+
+		console.warn(`WontumPlayer: ${error.code} (${error.details}), recovery attempt ${attempt}/${maxAttempts} (${action}) in ${delay}ms`)
+		this.emit("recoveryattempt", { error, attempt, maxAttempts, delay, action })
+		this.analytics.trackEvent("recovery_attempt", {
+			...this.getAnalyticsData(),
+			code: error.code,
+			details: error.details,
+			httpStatus: error.httpStatus,
+			attempt,
+			action,
+		})
 
-	// Public API
-	public play(): Promise<void> {
-		return this.videoElement.play()
+		this.clearRecoveryTimeout()
+		this.recoveryTimeout = window.setTimeout(async () => {
+			this.recoveryTimeout = null
+			try {
+				await recover()
+			} catch (recoveryError) {
+				this.failRecovery(WontumError.from(recoveryError))
+			}
+		}, delay)
 	}
 
-	public pause(): void {
-		this.videoElement.pause()
-	}
+	/**
+	 * Reload the manifest, signing the source again first when `resign` is set (e.g. after expired CloudFront cookies)
+	 */
+	private async reloadManifest(resign: boolean): Promise<void> {
+		const src = this.config.src
+		const engine = this.engine
+		if (!src || !engine?.reload) return
 
-	public seek(time: number): void {
-		this.videoElement.currentTime = time
-	}
+		if (resign) this.s3Handler.invalidate(src)
+		const url = await this.s3Handler.processUrl(src)
 
-	public skipForward(seconds: number = 10): void {
-		const newTime = Math.min(this.state.currentTime + seconds, this.state.duration)
-		this.seek(newTime)
-	}
+		// Source changed or player destroyed while signing
+		if (engine !== this.engine) return
 
-	public skipBackward(seconds: number = 10): void {
-		const newTime = Math.max(this.state.currentTime - seconds, 0)
-		this.seek(newTime)
+		engine.reload(url)
 	}
 
-	public setVolume(volume: number): void {
-		this.videoElement.volume = Math.max(0, Math.min(1, volume))
+	private failRecovery(error: WontumError): void {
+		this.clearRecoveryTimeout()
+		this.teardownEngine()
+		this.emit("recoveryfailed", { error, attempts: this.recovery.getMaxAttempts() })
+		this.analytics.trackEvent("recovery_failed", { ...this.getAnalyticsData(), code: error.code, details: error.details })
+		this.handleError(error)
 	}
 
-	public mute(): void {
-		this.videoElement.muted = true
+	private clearRecoveryTimeout(): void {
+		if (this.recoveryTimeout) {
+			clearTimeout(this.recoveryTimeout)
+			this.recoveryTimeout = null
+		}
 	}
 
-	public unmute(): void {
-		this.videoElement.muted = false
+	private teardownEngine(): void {
+		if (this.engine) {
+			this.engine.destroy()
+			this.engine = null
+		}
 	}
 
-	public setPlaybackRate(rate: number): void {
-		this.videoElement.playbackRate = rate
+	/**
+	 * Switch to the next configured source, keeping the playback position.
+	 * Returns false when there is no source left to try.
+	 */
+	private failover(error: WontumError): boolean {
+		const from = this.config.src
+		const next = this.sourceList?.next()
+		if (!from || !next) return false
+
+		const position = this.state.currentTime
+		const index = this.sourceList!.getIndex()
+
+		console.warn(`WontumPlayer: ${error.code} on ${from}, failing over to source ${index}: ${next.src}`)
+		this.emit("sourcefailover", { from, to: next.src, index, error })
+		this.analytics.trackEvent("source_failover", { ...this.getAnalyticsData(), from, to: next.src, index, code: error.code })
+
+		this.replaceSource(next.src, next.type, false)
+			.then(() => {
+				this.seekOnceLoaded(position)
+				this.play().catch(() => {})
+			})
+			.catch((error) => this.handleError(WontumError.from(error)))
+		return true
 	}
 
-	public setQuality(qualityIndex: number): void {
-		if (this.hls) {
-			this.hls.currentLevel = qualityIndex
+	private seekOnceLoaded(position: number): void {
+		if (position > 0) {
+			this.videoElement.addEventListener("loadedmetadata", () => this.seek(position), { once: true })
 		}
 	}
 
-	public getQualities(): QualityLevel[] {
-		return this.qualities
-	}
+	/**
+	 * Report an error to listeners and analytics, and show the error overlay for fatal errors
+	 */
+	private handleError(error: WontumError): void {
+		if (error.fatal && error.code.startsWith("NETWORK") && this.failover(error)) {
+			return
+		}
 
-	public enterFullscreen(): void {
-		if (this.container.requestFullscreen) {
-			this.container.requestFullscreen()
-			this.state.fullscreen = true
-			this.emit("fullscreenchange", { fullscreen: true })
+		console.error("WontumPlayer error:", error)
+		if (error.fatal) {
+			this.stateMachine.transition("error")
 		}
-	}
+		this.emit("error", { error })
+		this.analytics.trackEvent("error", {
+			...this.getAnalyticsData(),
+			error: error.message,
+			code: error.code,
+			details: error.details,
+			httpStatus: error.httpStatus,
+			fatal: error.fatal,
+		})
 
-	public exitFullscreen(): void {
-		if (document.exitFullscreen) {
-			document.exitFullscreen()
-			this.state.fullscreen = false
-			this.emit("fullscreenchange", { fullscreen: false })
+		if (error.fatal) {
+			this.uiController.showError(error, error.recoverable ? () => this.retry() : undefined)
 		}
 	}
 
-	public async enterPictureInPicture(): Promise<void> {
-		if (document.pictureInPictureEnabled && !this.videoElement.disablePictureInPicture) {
-			try {
-				await this.videoElement.requestPictureInPicture()
-				this.emit("pictureinpictureenter", {})
-			} catch (error) {
-				console.error("Failed to enter Picture-in-Picture:", error)
-				throw error
-			}
+	/**
+	 * Restore the saved position once metadata is available, or offer it in a prompt
+	 */
+	private async restoreResumePosition(): Promise<void> {
+		const key = this.resumeManager.getPendingKey()
+		// Live streams have no position worth resuming
+		if (!key || this.state.live) return
+		if (!this.resumeManager.shouldRestore()) {
+			this.resumeManager.activate()
+			return
+		}
+
+		const position = await this.resumeManager.getResumePosition(this.state.duration)
+
+		// Source changed while the storage adapter was reading
+		if (key !== this.resumeManager.getPendingKey()) return
+
+		this.resumeManager.activate()
+		if (position === null) return
+
+		const resume = () => {
+			this.seek(position)
+			this.emit("resume", { position })
+			this.analytics.trackEvent("resume", { ...this.getAnalyticsData(), position })
+		}
+
+		if (this.resumeManager.shouldPrompt()) {
+			this.uiController.showResumePrompt(position, resume, () => this.resumeManager.clear())
+		} else {
+			resume()
 		}
 	}
 
-	public async exitPictureInPicture(): Promise<void> {
-		if (document.pictureInPictureElement) {
-			try {
-				await document.exitPictureInPicture()
-				this.emit("pictureinpictureexit", {})
-			} catch (error) {
-				console.error("Failed to exit Picture-in-Picture:", error)
-				throw error
-			}
+	/**
+	 * Fire cue points and open checkpoints played through since the last timeupdate.
+	 * Works on the range covered rather than the current time, so nothing is missed at high playback rates,
+	 * and jumps made by seeking don't count as crossings.
+	 * @param upTo - Stop at this time instead of the current time (a loop or clip end played past)
+	 */
+	private handlePlayheadAdvance(upTo = Infinity): void {
+		const previous = this.lastPlayhead
+		const current = Math.min(this.state.currentTime, upTo)
+		this.lastPlayhead = current
+		if (this.stateMachine.is("seeking")) return
+
+		const includePrevious = this.playheadSeeked
+		this.playheadSeeked = false
+
+		this.recordWatched()
+		const watchRange = this.getWatchRange()
+		if (watchRange && this.watched.checkCompletion(watchRange)) {
+			const percentWatched = this.watched.getPercentWatched(watchRange)
+			this.emit("completed", { percentWatched })
+			this.analytics.trackEvent("completed", { ...this.getAnalyticsData(), percentWatched })
+		}
+
+		this.cuePoints.getCrossed(previous, current, includePrevious).forEach((cuePoint) => {
+			this.emit("cuepoint", { cuePoint })
+		})
+
+		if (!this.activeCheckpoint) {
+			const checkpoint = this.checkpoints.getReached(previous, current)
+			if (checkpoint) this.openCheckpoint(checkpoint)
 		}
 	}
 
-	public async togglePictureInPicture(): Promise<void> {
-		if (document.pictureInPictureElement) {
-			await this.exitPictureInPicture()
-		} else {
-			await this.enterPictureInPicture()
+	/**
+	 * Apply the seek policy to seeks past unanswered checkpoints. Returns true when the seek was stopped.
+	 */
+	private guardCheckpointSeek(time: number): boolean {
+		const from = this.activeCheckpoint?.time ?? this.videoElement.currentTime
+
+		if (time < from) {
+			// Rewinding to rewatch before answering - the checkpoint comes up again when reached
+			this.closeCheckpoint()
+			return false
 		}
+
+		const checkpoint = this.checkpoints.getSkipped(from, time)
+		if (!checkpoint) return false
+
+		const blocked = this.config.checkpoints?.seekPolicy !== "flag"
+		this.emit("checkpointseekpast", { checkpoint, time, blocked })
+		this.analytics.trackEvent("checkpoint_seek_past", { ...this.getAnalyticsData(), checkpointId: checkpoint.id, seekTime: time, blocked })
+
+		if (!blocked) {
+			this.closeCheckpoint()
+			return false
+		}
+		if (this.activeCheckpoint !== checkpoint) {
+			this.videoElement.currentTime = checkpoint.time
+			this.openCheckpoint(checkpoint)
+		}
+		return true
 	}
 
-	public getState(): PlayerState {
-		return { ...this.state }
+	private openCheckpoint(checkpoint: Checkpoint): void {
+		this.activeCheckpoint = checkpoint
+		this.pause()
+		this.uiController.showCheckpoint(
+			checkpoint,
+			(answer) => this.recordCheckpointAnswer(checkpoint, answer),
+			() => this.skipCheckpoint(checkpoint.id),
+			() => this.continueFromCheckpoint(),
+		)
+		this.emit("checkpoint", { checkpoint })
+		this.analytics.trackEvent("checkpoint_reached", { ...this.getAnalyticsData(), checkpointId: checkpoint.id })
 	}
 
-	public getVideoElement(): HTMLVideoElement {
-		return this.videoElement
+	private closeCheckpoint(): void {
+		if (!this.activeCheckpoint) return
+		this.activeCheckpoint = null
+		this.uiController.hideCheckpoint()
+	}
+
+	private continueFromCheckpoint(): void {
+		this.closeCheckpoint()
+		this.play().catch(() => {})
+	}
+
+	private recordCheckpointAnswer(checkpoint: Checkpoint, answer: number | string): boolean | null {
+		const correct = this.checkpoints.isCorrect(checkpoint, answer)
+		this.checkpoints.resolve(checkpoint.id)
+		this.uiController.renderCheckpoints()
+
+		this.emit("checkpointanswer", { checkpoint, answer, correct })
+		this.analytics.trackEvent("checkpoint_answer", {
+			...this.getAnalyticsData(),
+			checkpointId: checkpoint.id,
+			question: checkpoint.question,
+			answer,
+			correct,
+		})
+		return correct
 	}
 
 	/**
-	 * Enable subtitles for a specific track
+	 * Media session metadata for the current video - playlist item fields override the config
 	 */
-	public enableSubtitles(trackIndex: number): void {
-		const tracks = this.videoElement.textTracks
-		for (let i = 0; i < tracks.length; i++) {
-			tracks[i].mode = i === trackIndex ? "showing" : "hidden"
+	private getMediaSessionMetadata(item?: PlaylistItem): MediaSessionMetadata {
+		const metadata = this.config.metadata ?? {}
+		const artwork = item?.artwork ?? (item?.poster ? [{ src: item.poster }] : metadata.artwork)
+		return {
+			title: item?.title ?? metadata.title,
+			artist: item?.artist ?? metadata.artist,
+			album: metadata.album,
+			artwork: artwork ?? (this.config.poster ? [{ src: this.config.poster }] : undefined),
 		}
 	}
 
+	private updateMediaSessionPosition(): void {
+		this.mediaSession.updatePosition(this.videoElement.currentTime, this.state.duration, this.state.playbackRate)
+	}
+
 	/**
-	 * Disable all subtitles
+	 * Advance the playlist when an item finishes, via the up-next countdown
 	 */
-	public disableSubtitles(): void {
-		const tracks = this.videoElement.textTracks
-		for (let i = 0; i < tracks.length; i++) {
-			tracks[i].mode = "hidden"
+	private handlePlaylistEnded(): void {
+		if (!this.playlist) return
+
+		if (this.playlist.getRepeatMode() === "one") {
+			this.seek(0)
+			this.play().catch(() => {})
+			return
+		}
+
+		if (this.config.playlist?.autoAdvance === false) return
+
+		const nextIndex = this.playlist.getNextIndex()
+		if (nextIndex === null) return
+
+		const advance = () => {
+			this.jumpTo(nextIndex).catch((error) => this.handleError(WontumError.from(error)))
+		}
+
+		const countdown = this.config.playlist?.countdown ?? 5
+		if (countdown <= 0) {
+			advance()
+			return
 		}
+
+		this.uiController.showUpNext(this.playlist.getItem(nextIndex)!, countdown, advance)
 	}
 
 	/**
-	 * Toggle subtitles on/off
+	 * Load a playlist item: swaps source, poster, subtitles and video id
 	 */
-	public toggleSubtitles(): boolean {
-		const tracks = this.videoElement.textTracks
-		const hasVisibleTrack = Array.from(tracks).some((track) => track.mode === "showing")
+	private async loadPlaylistItem(index: number, autoplay: boolean): Promise<void> {
+		if (!this.playlist) return
 
-		if (hasVisibleTrack) {
-			this.disableSubtitles()
-			return false
+		const previousIndex = this.playlist.getCurrentIndex()
+		const item = this.playlist.setCurrentIndex(index)
+		if (!item) return
+
+		this.uiController.hideUpNext()
+
+		this.videoElement.poster = item.poster ?? this.config.poster ?? ""
+		this.mediaSession.setMetadata(this.getMediaSessionMetadata(item))
+		this.videoId = item.videoId ?? this.config.analytics?.videoId
+		this.analytics.setVideoId(this.videoId)
+
+		// Replace subtitle tracks from the previous item
+		this.videoElement.querySelectorAll("track").forEach((track) => track.remove())
+		this.addSubtitleTracks(item.subtitles ?? this.config.subtitles ?? [])
+
+		this.sourceList = null
+		if (this.config.src) {
+			await this.replaceSource(item.src, item.type)
 		} else {
-			// Enable the first track if available
-			if (tracks.length > 0) {
-				this.enableSubtitles(0)
-				return true
-			}
-			return false
+			this.config.src = item.src
+			this.config.type = item.type
+			await this.loadSource(item.src, item.type)
+		}
+
+		this.emit("playlistitemchange", { index, previousIndex, item })
+
+		if (autoplay) {
+			this.play().catch(() => {})
 		}
 	}
 
 	/**
-	 * Get available subtitle tracks
+	 * Seconds buffered ahead of the playhead in the buffered range containing it
 	 */
-	public getSubtitleTracks(): TextTrack[] {
-		return Array.from(this.videoElement.textTracks)
+	private getBufferAhead(): number {
+		const { buffered, currentTime } = this.videoElement
+		for (let i = 0; i < buffered.length; i++) {
+			if (currentTime >= buffered.start(i) && currentTime <= buffered.end(i)) {
+				return buffered.end(i) - currentTime
+			}
+		}
+		return 0
 	}
 
 	/**
-	 * Check if subtitles are currently enabled
+	 * Push the allowed automatic quality range down to the engine
 	 */
-	public areSubtitlesEnabled(): boolean {
-		const tracks = this.videoElement.textTracks
-		return Array.from(tracks).some((track) => track.mode === "showing")
+	private applyAbrConstraints(): void {
+		if (!this.engine?.setAutoLevelRange || this.qualities.length === 0) return
+
+		const playerHeight = this.container.clientHeight * (window.devicePixelRatio || 1)
+		const { min, max } = this.abr.getLevelRange(this.qualities, playerHeight)
+		this.engine.setAutoLevelRange(min, max)
 	}
 
-	public on(eventType: PlayerEventType, callback: (event: PlayerEvent) => void): void {
-		if (!this.eventListeners.has(eventType)) {
-			this.eventListeners.set(eventType, new Set())
+	/**
+	 * Re-apply the player size cap when the container is resized (fullscreen, layout changes)
+	 */
+	private observePlayerSize(): void {
+		if (!this.abr.shouldCapToPlayerSize()) {
+			this.resizeObserver?.disconnect()
+			this.resizeObserver = null
+			return
 		}
-		this.eventListeners.get(eventType)!.add(callback)
-	}
+		if (this.resizeObserver || typeof ResizeObserver === "undefined") return
 
-	public off(eventType: PlayerEventType, callback: (event: PlayerEvent) => void): void {
-		this.eventListeners.get(eventType)?.delete(callback)
+		this.resizeObserver = new ResizeObserver(() => this.applyAbrConstraints())
+		this.resizeObserver.observe(this.container)
 	}
 
-	private emit(type: PlayerEventType, data?: any): void {
-		const event: PlayerEvent = {
-			type,
-			data,
-			timestamp: Date.now(),
-		}
+	/**
+	 * Re-select the viewer's remembered manual quality (closest height) for a new source
+	 */
+	private async restorePreferredQuality(engine: MediaEngine): Promise<void> {
+		const height = await this.abr.getPreferredHeight()
+		if (height === null || engine !== this.engine || this.selectedQuality !== -1 || this.qualities.length === 0) return
 
-		this.eventListeners.get(type)?.forEach((callback) => {
-			callback(event)
+		let index = 0
+		this.qualities.forEach((quality, i) => {
+			if (Math.abs(quality.height - height) < Math.abs(this.qualities[index].height - height)) index = i
 		})
+
+		this.selectedQuality = index
+		engine.setCurrentLevel(index)
 	}
 
 	/**
-	 * Update video source without recreating the entire player
-	 * This is more efficient than destroying and recreating the player
-	 * @param src - New video source URL
+	 * Keep PlayerState's booleans in line with the status, then announce the change
 	 */
-	public async updateSource(src: string): Promise<void> {
-		// Validate source
-		if (!src || src.trim() === "") {
-			throw new Error("WontumPlayer: Cannot update to empty or invalid source")
+	private handleStatusChange(from: PlaybackStatus, to: PlaybackStatus): void {
+		this.state.status = to
+		this.state.ended = to === "ended"
+		this.state.buffering = to === "buffering"
+		this.state.paused = this.videoElement.paused
+		this.state.playing = !this.videoElement.paused && to !== "ended" && to !== "error"
+		this.emit("statechange", { from, to })
+	}
+
+	/**
+	 * Status once seeking or buffering finishes, read from the video element
+	 */
+	private settleStatus(): void {
+		if (this.videoElement.ended) {
+			this.stateMachine.transition("ended")
+		} else if (!this.videoElement.paused) {
+			this.stateMachine.transition("playing")
+		} else {
+			// Nothing played yet - still just ready
+			this.stateMachine.transition(this.videoElement.played.length > 0 ? "paused" : "ready")
 		}
-		// Pause current playback
-		this.pause()
+	}
 
-		// Reset state
-		this.state.currentTime = 0
-		this.state.ended = false
-		this.state.buffering = false
+	private handleEnded(): void {
+		// A loop reaching the end of the video starts over instead of ending
+		if (this.loopRange) {
+			this.seek(this.loopRange.start)
+			this.play().catch(() => {})
+			return
+		}
+
+		this.stateMachine.transition("ended")
+		this.emit("ended")
+		this.analytics.trackEvent("ended", this.getAnalyticsData())
+		this.resumeManager.clear()
+		this.handlePlaylistEnded()
+	}
 
-		// Destroy existing HLS instance if present
-		if (this.hls) {
-			this.hls.destroy()
-			this.hls = null
+	/**
+	 * Apply the A-B loop and clip end on timeupdate. Returns true when playback was moved or stopped.
+	 */
+	private enforcePlaybackRange(): boolean {
+		const currentTime = this.videoElement.currentTime
+
+		if (this.loopRange && currentTime >= this.loopRange.end && !this.videoElement.paused) {
+			const { start, end } = this.loopRange
+			// Play out the stretch up to the boundary first - a checkpoint there holds the loop until it's dealt with
+			this.handlePlayheadAdvance(end)
+			if (!this.activeCheckpoint) this.seek(start)
+			return true
 		}
 
-		// Update config
-		this.config.src = src
+		const clip = this.getClipRange()
+		if (clip && currentTime >= clip.end && !this.videoElement.paused) {
+			this.handlePlayheadAdvance(clip.end)
+			if (this.activeCheckpoint) return true
+			// End the clip the way a video ends: pause first (saving the position), then "ended"
+			this.videoElement.addEventListener("pause", () => this.handleEnded(), { once: true })
+			this.pause()
+			return true
+		}
 
-		// Load new source
-		await this.loadSource(src)
+		return false
+	}
 
-		// Emit source change event
-		this.emit("sourcechange", { src })
+	private setLive(live: boolean): void {
+		if (this.state.live === live) return
+
+		this.state.live = live
+		this.state.atLiveEdge = live
+		this.emit("livechange", { live })
 	}
 
-	public destroy(): void {
-		if (this.hls) {
-			this.hls.destroy()
-			this.hls = null
+	private updateLiveEdge(): void {
+		if (!this.state.live) return
+
+		const latency = this.getLatency()
+		const threshold = (this.getTargetLatency() ?? 0) + (this.config.live?.liveEdgeThreshold ?? 10)
+		const atLiveEdge = latency !== null && latency <= threshold
+		if (atLiveEdge !== this.state.atLiveEdge) {
+			this.state.atLiveEdge = atLiveEdge
+			this.emit("liveedgechange", { atLiveEdge })
 		}
+	}
+
+	private getAnalyticsData(): Record<string, any> {
+		return {
+			currentTime: this.state.currentTime,
+			duration: this.state.duration,
+			quality: this.state.quality,
+			playbackRate: this.state.playbackRate,
+			volume: this.state.volume,
+			muted: this.state.muted,
+		}
+	}
+
+	// Public API
+	public play(): Promise<void> {
+		// The checkpoint has to be answered or skipped first
+		if (this.activeCheckpoint) return Promise.resolve()
+		return this.videoElement.play()
+	}
+
+	public pause(): void {
+		this.videoElement.pause()
+	}
+
+	public seek(time: number): void {
+		// Clips can't be left by seeking
+		const clip = this.getClipRange()
+		if (clip) {
+			time = Math.min(Math.max(time, clip.start), clip.end)
+		}
+		// Without DVR, live streams can't be rewound - any seek lands on the live edge
+		const liveEdge = this.config.live?.dvr === false ? this.getLiveEdge() : null
+		if (liveEdge !== null) {
+			time = Math.max(time, liveEdge)
+		}
+		if (this.guardCheckpointSeek(time)) return
+		this.videoElement.currentTime = time
+	}
+
+	public skipForward(seconds: number = 10): void {
+		const end = this.state.live ? (this.getLiveEdge() ?? this.state.currentTime) : (this.getClipRange()?.end ?? this.state.duration)
+		const newTime = Math.min(this.state.currentTime + seconds, end)
+		this.seek(newTime)
+	}
+
+	public skipBackward(seconds: number = 10): void {
+		const start = this.state.live ? (this.getSeekableRange()?.start ?? 0) : (this.getClipRange()?.start ?? 0)
+		const newTime = Math.max(this.state.currentTime - seconds, start)
+		this.seek(newTime)
+	}
+
+	public setVolume(volume: number): void {
+		this.videoElement.volume = Math.max(0, Math.min(1, volume))
+	}
+
+	public mute(): void {
+		this.videoElement.muted = true
+	}
+
+	public unmute(): void {
+		this.videoElement.muted = false
+	}
+
+	public setPlaybackRate(rate: number): void {
+		this.videoElement.playbackRate = rate
+	}
+
+	/**
+	 * Select a quality level index, or -1 for automatic selection
+	 */
+	public setQuality(qualityIndex: number): void {
+		this.selectedQuality = qualityIndex
+		this.engine?.setCurrentLevel(qualityIndex)
+		this.abr.savePreferredHeight(qualityIndex === -1 ? null : (this.qualities[qualityIndex]?.height ?? null))
+	}
+
+	/**
+	 * Manually selected quality level index, -1 when automatic
+	 */
+	public getSelectedQuality(): number {
+		return this.selectedQuality
+	}
+
+	/**
+	 * Highest resolution (video height) automatic selection may pick, undefined for no limit
+	 */
+	public setMaxResolution(height?: number): void {
+		this.abr.setMaxHeight(height)
+		this.applyAbrConstraints()
+	}
+
+	/**
+	 * Lowest resolution (video height) automatic selection may pick, undefined for no limit
+	 */
+	public setMinResolution(height?: number): void {
+		this.abr.setMinHeight(height)
+		this.applyAbrConstraints()
+	}
+
+	/**
+	 * Keep automatic selection from picking levels larger than the player is rendered
+	 */
+	public setCapToPlayerSize(enabled: boolean): void {
+		this.abr.setCapToPlayerSize(enabled)
+		this.observePlayerSize()
+		this.applyAbrConstraints()
+	}
+
+	public getQualities(): QualityLevel[] {
+		return this.qualities
+	}
+
+	/**
+	 * Playback statistics for diagnosing stutters and quality issues
+	 */
+	public getStats(): PlaybackStats {
+		const engineStats = this.engine?.getStats?.()
+		const quality = this.videoElement.getVideoPlaybackQuality?.()
+
+		return {
+			engine: this.engine?.name ?? null,
+			sourceType: this.sourceType,
+			width: this.videoElement.videoWidth,
+			height: this.videoElement.videoHeight,
+			bandwidthEstimate: engineStats?.bandwidthEstimate ?? null,
+			currentBitrate: this.qualities[this.playingLevel]?.bitrate ?? null,
+			targetBitrate: engineStats ? (this.qualities[engineStats.loadingLevel]?.bitrate ?? null) : null,
+			bufferAhead: this.getBufferAhead(),
+			droppedFrames: quality?.droppedVideoFrames ?? 0,
+			decodedFrames: quality?.totalVideoFrames ?? 0,
+			levelSwitches: this.levelSwitches,
+			fragmentsLoaded: engineStats?.fragmentsLoaded ?? 0,
+			averageFragmentLoadTime: engineStats?.averageFragmentLoadTime ?? null,
+			lastFragmentLoadTime: engineStats?.lastFragmentLoadTime ?? null,
+			latency: this.getLatency(),
+			targetLatency: this.getTargetLatency(),
+		}
+	}
+
+	/**
+	 * Show or hide the "stats for nerds" overlay
+	 */
+	public toggleStatsOverlay(visible?: boolean): void {
+		this.uiController.toggleStatsOverlay(visible)
+	}
+
+	/**
+	 * Parts of the video that have been played, merged into non-overlapping ranges
+	 */
+	public getWatchedRanges(): TimeRange[] {
+		return this.watched.getRanges()
+	}
+
+	/**
+	 * Percentage (0-100) of the unique content watched - of the clip when one is set, 0 for live streams
+	 */
+	public getPercentWatched(): number {
+		const range = this.getWatchRange()
+		return range ? this.watched.getPercentWatched(range) : 0
+	}
+
+	/**
+	 * Whether the completion threshold has been met for the current video (including earlier sessions when persisted)
+	 */
+	public isCompleted(): boolean {
+		return this.watched.isCompleted()
+	}
+
+	public clearWatchedRanges(): void {
+		this.watched.clear()
+	}
+
+	private recordWatched(): void {
+		// Until the new source is attached, played still describes the previous one
+		if (this.stateMachine.is("loading")) return
+		this.watched.track(this.videoElement.played)
+	}
+
+	private getWatchRange(): TimeRange | null {
+		if (this.state.live || !(this.state.duration > 0) || !isFinite(this.state.duration)) return null
+		return this.getClipRange() ?? { start: 0, end: this.state.duration }
+	}
+
+	/**
+	 * Fire a cuepoint event with `data` each time playback crosses `time`
+	 * @returns The cue point, with the id to remove it by
+	 */
+	public addCuePoint(time: number, data?: any): CuePoint {
+		return this.cuePoints.add({ time, data })
+	}
+
+	public removeCuePoint(cuePoint: CuePoint | string): boolean {
+		const id = typeof cuePoint === "string" ? cuePoint : cuePoint.id
+		return id !== undefined && this.cuePoints.remove(id)
+	}
+
+	public getCuePoints(): CuePoint[] {
+		return this.cuePoints.getAll()
+	}
+
+	public clearCuePoints(): void {
+		this.cuePoints.clear()
+	}
+
+	/**
+	 * Add cue points from an inline list or a WebVTT metadata track. Cue text that is valid JSON
+	 * is delivered parsed, anything else as a string.
+	 */
+	public async loadCuePoints(source: CuePoint[] | string): Promise<void> {
+		if (typeof source !== "string") {
+			source.forEach((cuePoint) => this.cuePoints.add(cuePoint))
+			return
+		}
+
+		try {
+			const url = await this.s3Handler.processUrl(source)
+			const cues = await fetchVtt(url, this.config.s3Config?.withCredentials)
+			cues.forEach((cue) => {
+				let data: any = cue.text
+				try {
+					data = JSON.parse(cue.text)
+				} catch {
+					// Plain text payload
+				}
+				this.cuePoints.add({ id: cue.id, time: cue.startTime, data })
+			})
+		} catch (error) {
+			console.error("Failed to load cue points:", error)
+		}
+	}
+
+	/**
+	 * Add an in-video question, replacing any checkpoint with the same id
+	 */
+	public addCheckpoint(checkpoint: Checkpoint): void {
+		this.checkpoints.add(checkpoint)
+		this.uiController.renderCheckpoints()
+	}
+
+	public removeCheckpoint(id: string): void {
+		if (this.activeCheckpoint?.id === id) this.continueFromCheckpoint()
+		if (this.checkpoints.remove(id)) this.uiController.renderCheckpoints()
+	}
+
+	public getCheckpoints(): Checkpoint[] {
+		return this.checkpoints.getAll()
+	}
+
+	public isCheckpointResolved(id: string): boolean {
+		return this.checkpoints.isResolved(id)
+	}
+
+	/**
+	 * Answer a checkpoint (for custom quiz UIs). Playback resumes if it is the one on screen.
+	 * @returns Whether the answer is correct, null for ungraded questions
+	 */
+	public answerCheckpoint(id: string, answer: number | string): boolean | null {
+		const checkpoint = this.checkpoints.get(id)
+		if (!checkpoint) {
+			throw new Error(`WontumPlayer: No checkpoint with id ${id}`)
+		}
+		const correct = this.recordCheckpointAnswer(checkpoint, answer)
+		if (this.activeCheckpoint === checkpoint) this.continueFromCheckpoint()
+		return correct
+	}
+
+	/**
+	 * Dismiss a checkpoint without answering it
+	 */
+	public skipCheckpoint(id: string): void {
+		const checkpoint = this.checkpoints.get(id)
+		if (!checkpoint) {
+			throw new Error(`WontumPlayer: No checkpoint with id ${id}`)
+		}
+		this.checkpoints.resolve(id)
+		this.uiController.renderCheckpoints()
+		this.emit("checkpointskip", { checkpoint })
+		this.analytics.trackEvent("checkpoint_skip", { ...this.getAnalyticsData(), checkpointId: id })
+		if (this.activeCheckpoint === checkpoint) this.continueFromCheckpoint()
+	}
+
+	/**
+	 * Show or hide the keyboard shortcut help overlay
+	 */
+	public toggleKeyboardShortcuts(visible?: boolean): void {
+		this.uiController.toggleShortcutsHelp(visible)
+	}
+
+	/**
+	 * Alternate audio renditions (e.g. dubbed languages) of the current source
+	 */
+	public getAudioTracks(): MediaTrack[] {
+		return this.engine?.getAudioTracks() ?? []
+	}
+
+	/**
+	 * Id of the active audio track, -1 when the source has no alternate audio
+	 */
+	public getAudioTrack(): number {
+		return this.state.audioTrack
+	}
+
+	public setAudioTrack(id: number): void {
+		this.engine?.setAudioTrack(id)
+	}
+
+	/**
+	 * Request fullscreen. state.fullscreen and the fullscreenchange event follow once the browser has switched.
+	 */
+	public async enterFullscreen(): Promise<void> {
+		if (this.state.fullscreen) return
+
+		const container = this.container as WebkitFullscreenElement
+		const video = this.videoElement as WebkitFullscreenVideoElement
+		try {
+			if (container.requestFullscreen) {
+				await container.requestFullscreen()
+			} else if (container.webkitRequestFullscreen) {
+				await container.webkitRequestFullscreen()
+			} else if (video.webkitEnterFullscreen) {
+				video.webkitEnterFullscreen()
+			} else {
+				throw new Error("Fullscreen is not supported")
+			}
+		} catch (error) {
+			console.error("WontumPlayer: Failed to enter fullscreen:", error)
+			throw error
+		}
+	}
+
+	public async exitFullscreen(): Promise<void> {
+		const doc = document as WebkitFullscreenDocument
+		const video = this.videoElement as WebkitFullscreenVideoElement
+		try {
+			if (document.fullscreenElement && document.exitFullscreen) {
+				await document.exitFullscreen()
+			} else if (doc.webkitFullscreenElement && doc.webkitExitFullscreen) {
+				await doc.webkitExitFullscreen()
+			} else if (video.webkitDisplayingFullscreen && video.webkitExitFullscreen) {
+				video.webkitExitFullscreen()
+			}
+		} catch (error) {
+			console.error("WontumPlayer: Failed to exit fullscreen:", error)
+			throw error
+		}
+	}
+
+	public async toggleFullscreen(): Promise<void> {
+		if (this.state.fullscreen) {
+			await this.exitFullscreen()
+		} else {
+			await this.enterFullscreen()
+		}
+	}
+
+	/**
+	 * Sync state.fullscreen with the browser - also covers leaving fullscreen with Esc or the back gesture
+	 */
+	private handleFullscreenChange = (): void => {
+		const doc = document as WebkitFullscreenDocument
+		const element = document.fullscreenElement ?? doc.webkitFullscreenElement ?? null
+		const fullscreen = (!!element && this.container.contains(element)) || !!(this.videoElement as WebkitFullscreenVideoElement).webkitDisplayingFullscreen
+		if (fullscreen === this.state.fullscreen) return
+
+		this.state.fullscreen = fullscreen
+		this.emit("fullscreenchange", { fullscreen })
+	}
+
+	public async enterPictureInPicture(): Promise<void> {
+		if (document.pictureInPictureEnabled && !this.videoElement.disablePictureInPicture) {
+			try {
+				await this.videoElement.requestPictureInPicture()
+				this.emit("pictureinpictureenter", {})
+			} catch (error) {
+				console.error("Failed to enter Picture-in-Picture:", error)
+				throw error
+			}
+		}
+	}
+
+	public async exitPictureInPicture(): Promise<void> {
+		if (document.pictureInPictureElement) {
+			try {
+				await document.exitPictureInPicture()
+				this.emit("pictureinpictureexit", {})
+			} catch (error) {
+				console.error("Failed to exit Picture-in-Picture:", error)
+				throw error
+			}
+		}
+	}
+
+	public async togglePictureInPicture(): Promise<void> {
+		if (document.pictureInPictureElement) {
+			await this.exitPictureInPicture()
+		} else {
+			await this.enterPictureInPicture()
+		}
+	}
+
+	/**
+	 * Play the next playlist item
+	 */
+	public async next(): Promise<void> {
+		const nextIndex = this.playlist?.getNextIndex()
+		if (nextIndex === null || nextIndex === undefined) return
+		await this.jumpTo(nextIndex)
+	}
+
+	/**
+	 * Play the previous playlist item
+	 */
+	public async previous(): Promise<void> {
+		const previousIndex = this.playlist?.getPreviousIndex()
+		if (previousIndex === null || previousIndex === undefined) return
+		await this.jumpTo(previousIndex)
+	}
+
+	/**
+	 * Play the playlist item at the given index
+	 */
+	public async jumpTo(index: number): Promise<void> {
+		if (!this.playlist || !this.playlist.getItem(index)) {
+			throw new Error(`WontumPlayer: No playlist item at index ${index}`)
+		}
+		await this.loadPlaylistItem(index, true)
+	}
+
+	/**
+	 * Replace the playlist and load its first item
+	 */
+	public async loadPlaylist(items: PlaylistItem[], startIndex = 0): Promise<void> {
+		if (items.length === 0) {
+			throw new Error("WontumPlayer: Cannot load an empty playlist")
+		}
+
+		if (this.playlist) {
+			this.playlist.setItems(items, startIndex)
+		} else {
+			this.playlist = new Playlist({ ...this.config.playlist, items, startIndex })
+		}
+		await this.loadPlaylistItem(this.playlist.getCurrentIndex(), false)
+	}
+
+	public getPlaylist(): PlaylistItem[] {
+		return this.playlist?.getItems() ?? []
+	}
+
+	public getPlaylistIndex(): number {
+		return this.playlist?.getCurrentIndex() ?? -1
+	}
+
+	public setRepeatMode(mode: RepeatMode): void {
+		this.playlist?.setRepeatMode(mode)
+	}
+
+	public setShuffle(shuffle: boolean): void {
+		this.playlist?.setShuffle(shuffle)
+	}
+
+	/**
+	 * Load chapters from an inline list or a WebVTT chapters file URL
+	 */
+	public async loadChapters(source: Chapter[] | string): Promise<void> {
+		if (typeof source !== "string") {
+			this.setChapters(source)
+			return
+		}
+
+		try {
+			const url = await this.s3Handler.processUrl(source)
+			const cues = await fetchVtt(url, this.config.s3Config?.withCredentials)
+			this.setChapters(cues.map((cue) => ({ title: cue.text, startTime: cue.startTime, endTime: cue.endTime })))
+		} catch (error) {
+			console.error("Failed to load chapters:", error)
+		}
+	}
+
+	/**
+	 * Load seek preview thumbnails from a WebVTT thumbnail track. The track and its
+	 * sprite images are signed through S3Handler like the main source.
+	 */
+	public async loadThumbnails(url: string): Promise<void> {
+		this.thumbnails = []
+
+		try {
+			const trackUrl = await this.s3Handler.processUrl(url)
+			const cues = await fetchVtt(trackUrl, this.config.s3Config?.withCredentials)
+			// Resolve sprites against the unsigned URL so each image gets its own signature
+			const thumbnails = parseThumbnails(cues, url)
+
+			const signed = new Map<string, Promise<string>>()
+			for (const thumbnail of thumbnails) {
+				if (!signed.has(thumbnail.url)) {
+					signed.set(thumbnail.url, this.s3Handler.processUrl(thumbnail.url))
+				}
+				thumbnail.url = await signed.get(thumbnail.url)!
+			}
+
+			this.thumbnails = thumbnails
+		} catch (error) {
+			console.error("Failed to load thumbnails:", error)
+		}
+	}
+
+	/**
+	 * Seek preview thumbnail for a time, null if none is loaded
+	 */
+	public getThumbnail(time: number): Thumbnail | null {
+		return this.thumbnails.find((thumbnail) => time >= thumbnail.startTime && time < thumbnail.endTime) || null
+	}
+
+	public setChapters(chapters: Chapter[]): void {
+		this.chapters = [...chapters].sort((a, b) => a.startTime - b.startTime)
+		this.currentChapterIndex = -1
+		this.uiController.renderChapters()
+		this.updateCurrentChapter()
+	}
+
+	/**
+	 * Get chapters with end times resolved against the next chapter and duration
+	 */
+	public getChapters(): Chapter[] {
+		return this.chapters.map((chapter, i) => ({
+			...chapter,
+			endTime: chapter.endTime ?? this.chapters[i + 1]?.startTime ?? this.state.duration,
+		}))
+	}
+
+	public getCurrentChapter(): Chapter | null {
+		return this.getChapters()[this.currentChapterIndex] || null
+	}
+
+	public nextChapter(): void {
+		const next = this.chapters.find((chapter) => chapter.startTime > this.state.currentTime + 0.5)
+		if (next) {
+			this.seek(next.startTime)
+		}
+	}
+
+	/**
+	 * Go to the previous chapter, or restart the current one if more than 3 seconds in
+	 */
+	public previousChapter(): void {
+		const current = this.chapters[this.currentChapterIndex]
+		if (current && this.state.currentTime - current.startTime > 3) {
+			this.seek(current.startTime)
+			return
+		}
+
+		const previous = this.chapters[this.currentChapterIndex - 1]
+		this.seek(previous ? previous.startTime : 0)
+	}
+
+	private updateCurrentChapter(): void {
+		const time = this.state.currentTime
+		const index = this.getChapters().findIndex((chapter) => time >= chapter.startTime && time < chapter.endTime!)
+
+		if (index !== this.currentChapterIndex) {
+			this.currentChapterIndex = index
+			this.emit("chapterchange", { chapter: this.getCurrentChapter(), index })
+		}
+	}
+
+	/**
+	 * Reload the current source and continue from the current position
+	 */
+	public async retry(): Promise<void> {
+		const src = this.config.src
+		if (!src) return
+
+		const position = this.state.currentTime
+		this.uiController.hideError()
+
+		// Every source failed last time - start again from the preferred one
+		if (this.sourceList) {
+			this.sourceList.reset()
+			const source = this.sourceList.getCurrent()!
+			await this.replaceSource(source.src, source.type, false)
+		} else {
+			await this.replaceSource(src, this.config.type, false)
+		}
+
+		this.seekOnceLoaded(position)
+		this.play().catch(() => {})
+	}
+
+	/**
+	 * Install a plugin
+	 */
+	public use(plugin: WontumPlugin): this {
+		this.pluginManager.install(plugin)
+		return this
+	}
+
+	public getPlugin(name: string): WontumPlugin | undefined {
+		return this.pluginManager.get(name)
+	}
+
+	/**
+	 * Forget the saved resume position for the current source
+	 */
+	public clearResumePosition(): void {
+		this.resumeManager.clear()
+	}
+
+	/**
+	 * Get the configured sources in the order they are tried, and which one is active
+	 */
+	public getSources(): { sources: VideoSource[]; activeIndex: number } {
+		if (!this.sourceList) {
+			return { sources: this.config.src ? [{ src: this.config.src }] : [], activeIndex: this.config.src ? 0 : -1 }
+		}
+		return { sources: this.sourceList.getSources(), activeIndex: this.sourceList.getIndex() }
+	}
+
+	/**
+	 * Playback path of the current source: "hls" or "progressive" (MP4/WebM), null before a source loads
+	 */
+	public getSourceType(): SourceType | null {
+		return this.sourceType
+	}
+
+	/**
+	 * Media engine playing the current source (e.g. "hls.js" or "native"), null before a source loads
+	 */
+	public getEngine(): MediaEngine | null {
+		return this.engine
+	}
+
+	public isLive(): boolean {
+		return this.state.live
+	}
+
+	public isAtLiveEdge(): boolean {
+		return this.state.atLiveEdge
+	}
+
+	/**
+	 * Repeat the section between start and end (seconds) until clearLoop() is called
+	 */
+	public setLoopRange(start: number, end: number): void {
+		const clip = this.getClipRange()
+		if (clip) {
+			start = Math.max(start, clip.start)
+			end = Math.min(end, clip.end)
+		}
+		if (!(end > start)) {
+			console.warn(`WontumPlayer: Invalid loop range ${start}-${end}`)
+			return
+		}
+
+		this.loopRange = { start, end }
+		const currentTime = this.videoElement.currentTime
+		if (currentTime < start || currentTime >= end) {
+			this.seek(start)
+		}
+
+		this.emit("loopchange", { range: { ...this.loopRange } })
+		this.analytics.trackEvent("loop_set", { ...this.getAnalyticsData(), start, end })
+	}
+
+	public clearLoop(): void {
+		if (!this.loopRange) return
+		this.loopRange = null
+		this.emit("loopchange", { range: null })
+	}
+
+	public getLoopRange(): TimeRange | null {
+		return this.loopRange ? { ...this.loopRange } : null
+	}
+
+	/**
+	 * Part of the recording playback is restricted to by the `clip` config, with the end resolved
+	 * against the duration. Null without a clip or before the duration is known.
+	 */
+	public getClipRange(): TimeRange | null {
+		const clip = this.config.clip
+		if (!clip || !(this.state.duration > 0) || this.state.live) return null
+
+		const start = Math.min(Math.max(clip.start ?? 0, 0), this.state.duration)
+		const end = Math.min(clip.end ?? this.state.duration, this.state.duration)
+		return end > start ? { start, end } : null
+	}
+
+	/**
+	 * Jump to the live edge and resume playback
+	 */
+	public goLive(): void {
+		const liveEdge = this.getLiveEdge()
+		if (!this.state.live || liveEdge === null) return
+
+		this.seek(liveEdge)
+		if (this.state.paused) {
+			this.play().catch(() => {})
+		}
+		this.analytics.trackEvent("go_live", this.getAnalyticsData())
+	}
+
+	/**
+	 * Position playback should sit at to be "live": the engine's sync position, or the end of the seekable range
+	 */
+	public getLiveEdge(): number | null {
+		if (!this.state.live) return null
+		return this.engine?.getLiveSyncPosition?.() ?? this.getSeekableRange()?.end ?? null
+	}
+
+	/**
+	 * Seconds behind the live edge, null for VOD
+	 */
+	public getLatency(): number | null {
+		if (!this.state.live) return null
+		const latency = this.engine?.getLatency?.()
+		if (latency) return latency
+
+		const end = this.getSeekableRange()?.end
+		return end !== undefined ? Math.max(end - this.state.currentTime, 0) : null
+	}
+
+	/**
+	 * Latency the engine is steering towards, null for VOD or engines without latency control
+	 */
+	public getTargetLatency(): number | null {
+		if (!this.state.live) return null
+		return this.engine?.getTargetLatency?.() ?? this.config.live?.targetLatency ?? null
+	}
+
+	/**
+	 * Seekable window (the DVR window for live streams), null before media is loaded
+	 */
+	public getSeekableRange(): TimeRange | null {
+		const seekable = this.videoElement.seekable
+		if (seekable.length === 0) return null
+		return { start: seekable.start(0), end: seekable.end(seekable.length - 1) }
+	}
+
+	public getConfig(): Readonly<WontumPlayerConfig> {
+		return this.config
+	}
+
+	public getState(): PlayerState {
+		return { ...this.state }
+	}
+
+	public getVideoElement(): HTMLVideoElement {
+		return this.videoElement
+	}
+
+	/**
+	 * Enable subtitles for a specific track (an index into getSubtitleTracks())
+	 */
+	public enableSubtitles(trackIndex: number): void {
+		const target = this.getSubtitleEntries()[trackIndex]
+		if (!target) return
+
+		this.getSideloadedTextTracks().forEach((track) => {
+			track.mode = track === target.textTrack ? "showing" : "hidden"
+		})
+		// Manifest subtitles are rendered by the engine (hls.subtitleTrack for hls.js)
+		this.engine?.setTextTrack(target.engineTrackId ?? -1)
+	}
+
+	/**
+	 * Disable all subtitles
+	 */
+	public disableSubtitles(): void {
+		this.getSideloadedTextTracks().forEach((track) => {
+			track.mode = "hidden"
+		})
+		this.engine?.setTextTrack(-1)
+	}
+
+	/**
+	 * Toggle subtitles on/off
+	 */
+	public toggleSubtitles(): boolean {
+		if (this.areSubtitlesEnabled()) {
+			this.disableSubtitles()
+			return false
+		} else {
+			// Enable the first track if available
+			if (this.getSubtitleEntries().length > 0) {
+				this.enableSubtitles(0)
+				return true
+			}
+			return false
+		}
+	}
+
+	/**
+	 * Get available subtitle tracks: sideloaded `subtitles` first, then those declared in the HLS manifest
+	 */
+	public getSubtitleTracks(): SubtitleTrackInfo[] {
+		return this.getSubtitleEntries().map(({ info }) => info)
+	}
+
+	/**
+	 * Check if subtitles are currently enabled
+	 */
+	public areSubtitlesEnabled(): boolean {
+		return this.getSubtitleTracks().some((track) => track.mode === "showing")
+	}
+
+	/**
+	 * Text tracks of the <track> elements added from the `subtitles` config
+	 */
+	private getSideloadedTextTracks(): TextTrack[] {
+		return Array.from(this.videoElement.querySelectorAll("track")).map((element) => element.track)
+	}
+
+	private getSubtitleEntries(): { info: SubtitleTrackInfo; textTrack?: TextTrack; engineTrackId?: number }[] {
+		const sideloaded = this.getSideloadedTextTracks().map((textTrack, index) => ({
+			info: {
+				index,
+				label: textTrack.label || textTrack.language || `Track ${index + 1}`,
+				language: textTrack.language,
+				kind: textTrack.kind,
+				mode: textTrack.mode,
+				source: "sideloaded" as const,
+			},
+			textTrack,
+		}))
+
+		const activeId = this.engine?.getTextTrack() ?? -1
+		const manifest = (this.engine?.getTextTracks() ?? []).map((track, i) => ({
+			info: {
+				index: sideloaded.length + i,
+				label: track.name,
+				language: track.language || "",
+				kind: "subtitles" as TextTrackKind,
+				mode: (track.id === activeId ? "showing" : "disabled") as TextTrackMode,
+				source: "manifest" as const,
+			},
+			engineTrackId: track.id,
+		}))
+
+		return [...sideloaded, ...manifest]
+	}
+
+	public on<K extends PlayerEventType>(eventType: K, callback: PlayerEventCallback<K>): void {
+		if (!this.eventListeners.has(eventType)) {
+			this.eventListeners.set(eventType, new Set())
+		}
+		this.eventListeners.get(eventType)!.add(callback)
+	}
+
+	public off<K extends PlayerEventType>(eventType: K, callback: PlayerEventCallback<K>): void {
+		this.eventListeners.get(eventType)?.delete(callback)
+	}
+
+	private emit<K extends PlayerEventType>(type: K, ...args: PlayerEventArgs<K>): void {
+		const event = {
+			type,
+			data: args[0],
+			timestamp: Date.now(),
+		} as PlayerEvent<K>
+
+		this.eventListeners.get(type)?.forEach((callback) => {
+			callback(event)
+		})
+	}
+
+	/**
+	 * Update video source without recreating the entire player
+	 * This is more efficient than destroying and recreating the player
+	 * @param src - New video source URL, or equivalent sources to fail over between
+	 */
+	public async updateSource(src: string | VideoSource[]): Promise<void> {
+		if (Array.isArray(src)) {
+			if (src.length === 0) {
+				throw new Error("WontumPlayer: Cannot update to an empty source list")
+			}
+			this.sourceList = new SourceList(src)
+			const source = this.sourceList.getCurrent()!
+			await this.replaceSource(source.src, source.type)
+			return
+		}
+
+		this.sourceList = null
+		await this.replaceSource(src)
+	}
+
+	/**
+	 * Swap the loaded source, keeping the current source list
+	 * @param restorePosition - false when the caller seeks back to the current position itself
+	 */
+	private async replaceSource(src: string, type?: string, restorePosition = true): Promise<void> {
+		// Validate source
+		if (!src || src.trim() === "") {
+			throw new Error("WontumPlayer: Cannot update to empty or invalid source")
+		}
+		// Save position of the outgoing source before it's replaced
+		this.resumeManager.save(this.videoElement.currentTime, this.state.duration)
+
+		// Pause current playback
+		this.pause()
+
+		// Reset state
+		this.clearLoop()
+		this.state.currentTime = 0
+
+		// Destroy the existing media engine if present
+		this.clearRecoveryTimeout()
+		this.teardownEngine()
+
+		// Update config
+		this.config.src = src
+		this.config.type = type
+
+		// Load new source
+		await this.loadSource(src, type, restorePosition)
+
+		// Emit source change event
+		this.emit("sourcechange", { src })
+	}
+
+	public destroy(): void {
+		this.resumeManager.save(this.videoElement.currentTime, this.state.duration)
+		this.recordWatched()
+		this.watched.save()
+		this.pluginManager.destroy()
+		this.clearRecoveryTimeout()
+		this.teardownEngine()
+		this.resizeObserver?.disconnect()
+		this.mediaSession.destroy()
+		document.removeEventListener("fullscreenchange", this.handleFullscreenChange)
+		document.removeEventListener("webkitfullscreenchange", this.handleFullscreenChange)
 
 		this.uiController.destroy()
 		this.videoElement.remove()
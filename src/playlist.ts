@@ -0,0 +1,105 @@
+import { PlaylistConfig, PlaylistItem, RepeatMode } from "./types"
+
+/**
+ * Playlist - Tracks the queue, current position, repeat and shuffle order
+ */
+export class Playlist {
+	private items: PlaylistItem[]
+	private order: number[] = []
+	private position = 0
+	private repeat: RepeatMode
+	private shuffle: boolean
+
+	constructor(config: PlaylistConfig) {
+		this.items = [...config.items]
+		this.repeat = config.repeat || "none"
+		this.shuffle = config.shuffle || false
+		this.buildOrder(config.startIndex ?? 0)
+	}
+
+	public getItems(): PlaylistItem[] {
+		return [...this.items]
+	}
+
+	public getItem(index: number): PlaylistItem | null {
+		return this.items[index] || null
+	}
+
+	public getCurrentIndex(): number {
+		return this.order[this.position] ?? -1
+	}
+
+	public getCurrentItem(): PlaylistItem | null {
+		return this.getItem(this.getCurrentIndex())
+	}
+
+	/**
+	 * Index of the item that follows the current one, or null at the end of the queue
+	 */
+	public getNextIndex(): number | null {
+		if (this.items.length === 0) return null
+		if (this.position + 1 < this.order.length) return this.order[this.position + 1]
+		return this.repeat === "all" ? this.order[0] : null
+	}
+
+	public getPreviousIndex(): number | null {
+		if (this.items.length === 0) return null
+		if (this.position > 0) return this.order[this.position - 1]
+		return this.repeat === "all" ? this.order[this.order.length - 1] : null
+	}
+
+	/**
+	 * Move to an item by its index in the items array
+	 */
+	public setCurrentIndex(index: number): PlaylistItem | null {
+		const position = this.order.indexOf(index)
+		if (position === -1) return null
+		this.position = position
+		return this.items[index]
+	}
+
+	public setItems(items: PlaylistItem[], startIndex = 0): void {
+		this.items = [...items]
+		this.buildOrder(startIndex)
+	}
+
+	public getRepeatMode(): RepeatMode {
+		return this.repeat
+	}
+
+	public setRepeatMode(mode: RepeatMode): void {
+		this.repeat = mode
+	}
+
+	public isShuffled(): boolean {
+		return this.shuffle
+	}
+
+	public setShuffle(shuffle: boolean): void {
+		this.shuffle = shuffle
+		this.buildOrder(this.getCurrentIndex())
+	}
+
+	/**
+	 * Build the play order. When shuffled, the current item stays first and the rest are randomised.
+	 */
+	private buildOrder(currentIndex: number): void {
+		const indices = this.items.map((_, i) => i)
+		const current = Math.min(Math.max(currentIndex, 0), Math.max(this.items.length - 1, 0))
+
+		if (!this.shuffle) {
+			this.order = indices
+			this.position = current
+			return
+		}
+
+		const rest = indices.filter((i) => i !== current)
+		for (let i = rest.length - 1; i > 0; i--) {
+			const j = Math.floor(Math.random() * (i + 1))
+			;[rest[i], rest[j]] = [rest[j], rest[i]]
+		}
+
+		this.order = this.items.length > 0 ? [current, ...rest] : []
+		this.position = 0
+	}
+}
@@ -0,0 +1,52 @@
+import { PluginContext, WontumPlugin } from "./types"
+
+/**
+ * PluginManager - Installs plugins and drives their lifecycle hooks
+ */
+export class PluginManager {
+	private context: PluginContext
+	private plugins: Map<string, WontumPlugin> = new Map()
+
+	constructor(context: PluginContext) {
+		this.context = context
+	}
+
+	public install(plugin: WontumPlugin): void {
+		if (this.plugins.has(plugin.name)) {
+			console.warn(`WontumPlayer: Plugin "${plugin.name}" is already installed`)
+			return
+		}
+
+		try {
+			plugin.install(this.context)
+			this.plugins.set(plugin.name, plugin)
+		} catch (error) {
+			console.error(`WontumPlayer: Failed to install plugin "${plugin.name}":`, error)
+		}
+	}
+
+	public get(name: string): WontumPlugin | undefined {
+		return this.plugins.get(name)
+	}
+
+	public notifySourceLoad(src: string): void {
+		this.plugins.forEach((plugin) => {
+			try {
+				plugin.onSourceLoad?.(src, this.context)
+			} catch (error) {
+				console.error(`WontumPlayer: Plugin "${plugin.name}" failed in onSourceLoad:`, error)
+			}
+		})
+	}
+
+	public destroy(): void {
+		this.plugins.forEach((plugin) => {
+			try {
+				plugin.onDestroy?.(this.context)
+			} catch (error) {
+				console.error(`WontumPlayer: Plugin "${plugin.name}" failed in onDestroy:`, error)
+			}
+		})
+		this.plugins.clear()
+	}
+}
@@ -39,6 +39,9 @@ export interface WontumPlayerReactProps extends Omit<WontumPlayerConfig, "contai
 export const WontumPlayerReact = forwardRef<WontumPlayer | null, WontumPlayerReactProps>((props, ref) => {
 	const {
 		src,
+		type,
+		sources,
+		engines,
 		autoplay,
 		muted,
 		controls = true,
@@ -50,6 +53,22 @@ export const WontumPlayerReact = forwardRef<WontumPlayer | null, WontumPlayerRea
 		hlsConfig,
 		subtitles,
 		stickyControls,
+		resume,
+		playlist,
+		chapters,
+		thumbnails,
+		clip,
+		plugins,
+		recovery,
+		live,
+		abr,
+		mediaSession,
+		metadata,
+		keyboard,
+		touch,
+		checkpoints,
+		cuePoints,
+		completion,
 		onReady,
 		onPlay,
 		onPause,
@@ -80,14 +99,19 @@ export const WontumPlayerReact = forwardRef<WontumPlayer | null, WontumPlayerRea
 			const videoElements = containerRef.current.querySelectorAll(".wontum-player-video")
 			const controlElements = containerRef.current.querySelectorAll(".wontum-controls")
 			const progressElements = containerRef.current.querySelectorAll(".wontum-progress-container")
+			const slotElements = containerRef.current.querySelectorAll(".wontum-slot-overlay")
 
 			videoElements.forEach((el) => el.remove())
 			controlElements.forEach((el) => el.remove())
 			progressElements.forEach((el) => el.remove())
+			slotElements.forEach((el) => el.remove())
 		}
 
 		const config: WontumPlayerConfig = {
 			...(src && { src }),
+			type,
+			sources,
+			engines,
 			container: containerRef.current,
 			autoplay,
 			muted,
@@ -100,6 +124,22 @@ export const WontumPlayerReact = forwardRef<WontumPlayer | null, WontumPlayerRea
 			hlsConfig,
 			subtitles,
 			stickyControls,
+			resume,
+			playlist,
+			chapters,
+			thumbnails,
+			clip,
+			plugins,
+			recovery,
+			live,
+			abr,
+			mediaSession,
+			metadata,
+			keyboard,
+			touch,
+			checkpoints,
+			cuePoints,
+			completion,
 		}
 
 		const player = new WontumPlayer(config)
@@ -134,6 +174,9 @@ export const WontumPlayerReact = forwardRef<WontumPlayer | null, WontumPlayerRea
 		}
 	}, [
 		src,
+		type,
+		sources,
+		engines,
 		autoplay,
 		muted,
 		controls,
@@ -145,6 +188,22 @@ export const WontumPlayerReact = forwardRef<WontumPlayer | null, WontumPlayerRea
 		hlsConfig,
 		subtitles,
 		stickyControls,
+		resume,
+		playlist,
+		chapters,
+		thumbnails,
+		clip,
+		plugins,
+		recovery,
+		live,
+		abr,
+		mediaSession,
+		metadata,
+		keyboard,
+		touch,
+		checkpoints,
+		cuePoints,
+		completion,
 		onPlay,
 		onPause,
 		onEnded,
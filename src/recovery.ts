@@ -0,0 +1,71 @@
+import { RecoveryConfig } from "./types"
+import { WontumError } from "./errors"
+
+/**
+ * RecoveryPolicy - Counts recovery attempts for fatal hls.js errors and decides how to escalate
+ */
+export class RecoveryPolicy {
+	private config: RecoveryConfig | undefined
+	private networkAttempts = 0
+	private mediaAttempts = 0
+
+	constructor(config?: RecoveryConfig) {
+		this.config = config
+	}
+
+	public getMaxAttempts(): number {
+		return this.config?.maxAttempts ?? 3
+	}
+
+	/**
+	 * Register a network recovery attempt. Returns the attempt number, or null when exhausted.
+	 */
+	public nextNetworkAttempt(): number | null {
+		if (this.networkAttempts >= this.getMaxAttempts()) return null
+		return ++this.networkAttempts
+	}
+
+	/**
+	 * Register a media recovery attempt. Returns the attempt number, or null when exhausted.
+	 */
+	public nextMediaAttempt(): number | null {
+		if (this.mediaAttempts >= this.getMaxAttempts()) return null
+		return ++this.mediaAttempts
+	}
+
+	/**
+	 * Exponential backoff: baseDelay * 2^(attempt - 1), capped at maxDelay
+	 */
+	public getDelay(attempt: number): number {
+		const baseDelay = this.config?.baseDelay ?? 1000
+		const maxDelay = this.config?.maxDelay ?? 10000
+		return Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay)
+	}
+
+	/**
+	 * Swap the audio codec once plain media recovery has failed repeatedly
+	 */
+	public shouldSwapAudioCodec(attempt: number): boolean {
+		return attempt > (this.config?.swapAudioCodecAfter ?? 1)
+	}
+
+	/**
+	 * 403s usually mean an expired signature - re-sign before reloading
+	 */
+	public shouldResign(error: WontumError): boolean {
+		return (this.config?.resignOnForbidden ?? true) && error.httpStatus === 403
+	}
+
+	public resetNetwork(): void {
+		this.networkAttempts = 0
+	}
+
+	public resetMedia(): void {
+		this.mediaAttempts = 0
+	}
+
+	public reset(): void {
+		this.resetNetwork()
+		this.resetMedia()
+	}
+}
@@ -0,0 +1,121 @@
+import { ResumeConfig, StorageAdapter } from "./types"
+import { LocalStorageAdapter, runStorage } from "./storage"
+
+/**
+ * ResumeManager - Persists playback positions so viewers can continue where they left off
+ */
+export class ResumeManager {
+	private config: ResumeConfig | undefined
+	private storage: StorageAdapter
+	private key: string | null = null
+	private pendingKey: string | null = null
+	private restore = true
+	private lastSavedAt = 0
+
+	constructor(config?: ResumeConfig) {
+		this.config = config
+		this.storage = config?.storage || new LocalStorageAdapter("wontum-resume:")
+	}
+
+	public isEnabled(): boolean {
+		return !!this.config?.enabled
+	}
+
+	public shouldPrompt(): boolean {
+		return !!this.config?.showPrompt
+	}
+
+	/**
+	 * Prepare for a new source. Saving stays paused until activate() is called,
+	 * so stray events from the previous source can't overwrite the new position.
+	 * @param restore - false when the caller seeks back to the position itself (failover, retry)
+	 */
+	public prepare(src: string, videoId?: string, restore = true): void {
+		this.pendingKey = this.config?.key || videoId || src
+		this.key = null
+		this.restore = restore
+	}
+
+	public shouldRestore(): boolean {
+		return this.restore
+	}
+
+	public getPendingKey(): string | null {
+		return this.pendingKey
+	}
+
+	/**
+	 * Start saving positions for the prepared source (after any restore has happened)
+	 */
+	public activate(): void {
+		if (!this.pendingKey) return
+		this.key = this.pendingKey
+		this.pendingKey = null
+		this.lastSavedAt = Date.now()
+	}
+
+	/**
+	 * Called from timeupdate - saves at most once per saveInterval
+	 */
+	public update(currentTime: number, duration: number): void {
+		if (!this.isEnabled() || !this.key) return
+
+		const interval = (this.config?.saveInterval ?? 5) * 1000
+		if (Date.now() - this.lastSavedAt < interval) return
+
+		this.save(currentTime, duration)
+	}
+
+	/**
+	 * Save the position immediately (on pause, source change, destroy)
+	 */
+	public save(currentTime: number, duration: number): void {
+		if (!this.isEnabled() || !this.key || !isFinite(currentTime)) return
+
+		this.lastSavedAt = Date.now()
+
+		// Positions near the end are not worth resuming - forget them instead
+		if (duration > 0 && this.isNearEnd(currentTime, duration)) {
+			this.clear()
+			return
+		}
+
+		const key = this.key
+		runStorage(() => this.storage.setItem(key, JSON.stringify({ position: currentTime, duration, savedAt: Date.now() })), "resume position")
+	}
+
+	/**
+	 * Load the saved position for the prepared source, or null if it shouldn't be restored
+	 */
+	public async getResumePosition(duration: number): Promise<number | null> {
+		if (!this.isEnabled() || !this.pendingKey) return null
+
+		try {
+			const raw = await this.storage.getItem(this.pendingKey)
+			if (!raw) return null
+
+			const { position } = JSON.parse(raw)
+			if (typeof position !== "number" || !isFinite(position)) return null
+
+			const minPosition = this.config?.minPosition ?? 5
+			if (position < minPosition) return null
+			if (duration > 0 && this.isNearEnd(position, duration)) return null
+
+			return position
+		} catch (error) {
+			console.warn("WontumPlayer: Failed to read resume position:", error)
+			return null
+		}
+	}
+
+	public clear(): void {
+		const key = this.key || this.pendingKey
+		if (!key) return
+		runStorage(() => this.storage.removeItem(key), "resume position")
+	}
+
+	private isNearEnd(position: number, duration: number): boolean {
+		const endThreshold = this.config?.endThreshold ?? 15
+		return duration - position <= endThreshold
+	}
+}
@@ -1,4 +1,5 @@
 import { S3Config } from "./types"
+import { WontumError } from "./errors"
 
 /**
  * S3Handler - Manages S3/CloudFront URLs and signed cookie authentication
@@ -29,6 +30,13 @@ export class S3Handler {
 		return url
 	}
 
+	/**
+	 * Whether the URL is signed by this handler (CloudFront cookies or S3 presigning)
+	 */
+	public isSigned(url: string): boolean {
+		return this.isCloudFrontUrl(url) || this.isS3Url(url)
+	}
+
 	/**
 	 * Check if URL is a CloudFront URL that needs signing
 	 */
@@ -87,12 +95,14 @@ export class S3Handler {
 				console.error("Failed to sign CloudFront URL:", error)
 				// For AbortError that exceeds retries, provide helpful message
 				if (isAbortError) {
-					throw new Error(
+					throw new WontumError(
+						"SIGNING_FAILED",
 						"Failed to sign CloudFront URL: Request was aborted. " +
 							"If using Apollo Client or other GraphQL clients, consider moving the query outside component lifecycle or using useQuery with skip option.",
+						{ url, cause: error },
 					)
 				}
-				throw new Error(`Failed to sign CloudFront URL: ${error?.message || "Unknown error"}`)
+				throw new WontumError("SIGNING_FAILED", `Failed to sign CloudFront URL: ${error?.message || "Unknown error"}`, { url, cause: error })
 			}
 		}
 
@@ -153,7 +163,7 @@ export class S3Handler {
 				return presignedUrl
 			} catch (error) {
 				console.error("Failed to generate presigned URL:", error)
-				throw new Error("Failed to generate presigned URL for S3 object")
+				throw new WontumError("SIGNING_FAILED", "Failed to generate presigned URL for S3 object", { url, cause: error })
 			}
 		}
 
@@ -185,6 +195,16 @@ export class S3Handler {
 		return { bucket, key }
 	}
 
+	/**
+	 * Forget the cached signature for a URL so the next processUrl() signs it again
+	 */
+	public invalidate(url: string): void {
+		this.signedUrls.delete(url)
+		if (this.isS3Url(url)) {
+			this.urlCache.delete(this.extractS3Key(url))
+		}
+	}
+
 	/**
 	 * Clear URL cache and signed URLs
 	 */
@@ -0,0 +1,66 @@
+/**
+ * Source type detection - decides between the HLS and progressive (MP4/WebM) playback paths
+ */
+
+export type SourceType = "hls" | "progressive"
+
+const HLS_MIME_TYPES = ["application/vnd.apple.mpegurl", "application/x-mpegurl", "audio/mpegurl", "audio/x-mpegurl"]
+
+const PROGRESSIVE_EXTENSIONS: Record<string, string> = {
+	mp4: "video/mp4",
+	m4v: "video/mp4",
+	mov: "video/quicktime",
+	webm: "video/webm",
+	ogv: "video/ogg",
+	ogg: "video/ogg",
+	mp3: "audio/mpeg",
+	m4a: "audio/mp4",
+}
+
+/**
+ * Map a MIME type to a source type, or null if it doesn't tell us
+ */
+export function sourceTypeFromMime(mimeType: string | null | undefined): SourceType | null {
+	if (!mimeType) return null
+	const type = mimeType.split(";")[0].trim().toLowerCase()
+
+	if (HLS_MIME_TYPES.includes(type)) return "hls"
+	if (type.startsWith("video/") || type.startsWith("audio/")) return "progressive"
+	return null
+}
+
+/**
+ * Guess the MIME type from the URL's file extension (query strings and s3:// URLs included)
+ */
+export function mimeTypeFromUrl(url: string): string | null {
+	let path = url
+	try {
+		path = new URL(url, window.location.href).pathname
+	} catch {
+		path = url.split(/[?#]/)[0]
+	}
+
+	const extension = path.split(".").pop()?.toLowerCase() || ""
+	if (extension === "m3u8") return "application/vnd.apple.mpegurl"
+	return PROGRESSIVE_EXTENSIONS[extension] || null
+}
+
+/**
+ * Resolve the source type from an explicit type, the file extension, and finally the
+ * Content-Type of a HEAD request. Falls back to HLS when nothing is conclusive.
+ */
+export async function detectSourceType(url: string, explicitType?: string, withCredentials = false): Promise<SourceType> {
+	const fromType = sourceTypeFromMime(explicitType) || sourceTypeFromMime(mimeTypeFromUrl(url))
+	if (fromType) return fromType
+
+	try {
+		const response = await fetch(url, {
+			method: "HEAD",
+			credentials: withCredentials ? "include" : "same-origin",
+		})
+		return sourceTypeFromMime(response.headers.get("Content-Type")) || "hls"
+	} catch {
+		// HEAD blocked (CORS, method not allowed) - keep the historical HLS behaviour
+		return "hls"
+	}
+}
@@ -0,0 +1,55 @@
+import { VideoSource } from "./types"
+
+/**
+ * SourceList - Ordered list of equivalent sources (CDNs, fallbacks) for failover
+ */
+export class SourceList {
+	private sources: VideoSource[]
+	private index = 0
+
+	constructor(sources: VideoSource[]) {
+		this.sources = SourceList.sort(sources)
+	}
+
+	/**
+	 * Sort by priority (lower first); sources without a priority keep their array order after prioritised ones
+	 */
+	private static sort(sources: VideoSource[]): VideoSource[] {
+		return sources
+			.map((source, order) => ({ source, order }))
+			.sort((a, b) => (a.source.priority ?? Infinity) - (b.source.priority ?? Infinity) || a.order - b.order)
+			.map(({ source }) => source)
+	}
+
+	public getSources(): VideoSource[] {
+		return [...this.sources]
+	}
+
+	public getCurrent(): VideoSource | null {
+		return this.sources[this.index] || null
+	}
+
+	public getIndex(): number {
+		return this.index
+	}
+
+	public hasNext(): boolean {
+		return this.index + 1 < this.sources.length
+	}
+
+	/**
+	 * Advance to the next source, or return null when all have been tried
+	 */
+	public next(): VideoSource | null {
+		if (!this.hasNext()) return null
+		this.index++
+		return this.sources[this.index]
+	}
+
+	/**
+	 * Start again from the highest-priority source
+	 */
+	public reset(): void {
+		this.index = 0
+	}
+}
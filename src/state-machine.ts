@@ -0,0 +1,52 @@
+import { PlaybackStatus } from "./types"
+
+/**
+ * Allowed transitions. Events that would make any other move (e.g. a stray "pause" after a fatal error) are ignored.
+ */
+const TRANSITIONS: Record<PlaybackStatus, PlaybackStatus[]> = {
+	idle: ["loading", "error"],
+	loading: ["idle", "ready", "playing", "paused", "buffering", "seeking", "error"],
+	ready: ["idle", "loading", "playing", "paused", "buffering", "seeking", "error"],
+	playing: ["idle", "loading", "paused", "buffering", "seeking", "ended", "error"],
+	paused: ["idle", "loading", "playing", "buffering", "seeking", "ended", "error"],
+	buffering: ["idle", "loading", "playing", "paused", "seeking", "ended", "error"],
+	seeking: ["idle", "loading", "ready", "playing", "paused", "buffering", "ended", "error"],
+	ended: ["idle", "loading", "playing", "paused", "seeking", "error"],
+	error: ["idle", "loading"],
+}
+
+/**
+ * PlaybackStateMachine - Single source of truth for the playback status
+ */
+export class PlaybackStateMachine {
+	private status: PlaybackStatus = "idle"
+	private onChange: (from: PlaybackStatus, to: PlaybackStatus) => void
+
+	constructor(onChange: (from: PlaybackStatus, to: PlaybackStatus) => void) {
+		this.onChange = onChange
+	}
+
+	public getStatus(): PlaybackStatus {
+		return this.status
+	}
+
+	public is(...statuses: PlaybackStatus[]): boolean {
+		return statuses.includes(this.status)
+	}
+
+	public canTransition(to: PlaybackStatus): boolean {
+		return TRANSITIONS[this.status].includes(to)
+	}
+
+	/**
+	 * Move to a new status. Returns false when already there or the transition isn't allowed.
+	 */
+	public transition(to: PlaybackStatus): boolean {
+		if (to === this.status || !this.canTransition(to)) return false
+
+		const from = this.status
+		this.status = to
+		this.onChange(from, to)
+		return true
+	}
+}
@@ -0,0 +1,52 @@
+import { StorageAdapter } from "./types"
+
+/**
+ * Run a storage adapter write. Adapters may be sync or async and may throw - failures are logged
+ * without breaking playback.
+ * @param what - What was being saved, for the warning
+ */
+export function runStorage(write: () => void | Promise<void>, what: string): void {
+	const warn = (error: unknown) => console.warn(`WontumPlayer: Failed to persist ${what}:`, error)
+	try {
+		const result = write()
+		if (result instanceof Promise) result.catch(warn)
+	} catch (error) {
+		warn(error)
+	}
+}
+
+/**
+ * LocalStorageAdapter - Default storage adapter backed by window.localStorage
+ * Fails silently when storage is unavailable (private mode, quota exceeded, SSR)
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+	private prefix: string
+
+	constructor(prefix = "wontum-player:") {
+		this.prefix = prefix
+	}
+
+	public getItem(key: string): string | null {
+		try {
+			return window.localStorage.getItem(this.prefix + key)
+		} catch {
+			return null
+		}
+	}
+
+	public setItem(key: string, value: string): void {
+		try {
+			window.localStorage.setItem(this.prefix + key, value)
+		} catch (error) {
+			console.warn("WontumPlayer: Failed to write to localStorage:", error)
+		}
+	}
+
+	public removeItem(key: string): void {
+		try {
+			window.localStorage.removeItem(this.prefix + key)
+		} catch {
+			// Ignore - nothing to remove if storage is unavailable
+		}
+	}
+}
@@ -0,0 +1,42 @@
+import { Thumbnail } from "./types"
+import { VttCue } from "./vtt"
+
+/**
+ * Turn WebVTT thumbnail cues ("sprite.jpg#xywh=0,0,160,90") into thumbnails.
+ * Image URLs are resolved against the track URL and left unsigned.
+ */
+export function parseThumbnails(cues: VttCue[], trackUrl: string): Thumbnail[] {
+	const thumbnails: Thumbnail[] = []
+
+	for (const cue of cues) {
+		const text = cue.text.trim()
+		if (!text) continue
+
+		const [path, fragment] = text.split("#")
+		const thumbnail: Thumbnail = {
+			startTime: cue.startTime,
+			endTime: cue.endTime,
+			url: resolveUrl(path, trackUrl),
+		}
+
+		const xywh = fragment?.match(/^xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)$/)
+		if (xywh) {
+			thumbnail.x = parseInt(xywh[1], 10)
+			thumbnail.y = parseInt(xywh[2], 10)
+			thumbnail.width = parseInt(xywh[3], 10)
+			thumbnail.height = parseInt(xywh[4], 10)
+		}
+
+		thumbnails.push(thumbnail)
+	}
+
+	return thumbnails
+}
+
+function resolveUrl(path: string, base: string): string {
+	try {
+		return new URL(path, new URL(base, window.location.href)).href
+	} catch {
+		return path
+	}
+}
@@ -0,0 +1,141 @@
+export type TapSide = "left" | "right"
+export type SwipeAxis = "horizontal" | "vertical"
+
+/**
+ * Gesture callbacks. Swipe deltas are fractions of the element size since the touch began
+ * (vertical is positive upwards).
+ */
+export interface TouchGestureHandlers {
+	tap(): void
+	doubleTap(side: TapSide, count: number): void
+	swipe(axis: SwipeAxis, delta: number): void
+	swipeEnd(axis: SwipeAxis): void
+}
+
+const TAP_DELAY = 300 // ms to wait for a second tap before treating a tap as single
+const SERIES_WINDOW = 700 // ms in which further taps on the same side keep skipping
+const MOVE_THRESHOLD = 10 // px a touch must move to count as a swipe
+
+/**
+ * TouchGestures - Turns raw touch events on an element into taps, double-taps and swipes
+ */
+export class TouchGestures {
+	private element: HTMLElement
+	private handlers: TouchGestureHandlers
+	private axes: SwipeAxis[]
+	private tracking = false
+	private startX = 0
+	private startY = 0
+	private axis: SwipeAxis | null = null
+	private tapTimeout: number | null = null
+	private lastTapTime = 0
+	private seriesSide: TapSide | null = null
+	private seriesCount = 0
+
+	constructor(element: HTMLElement, handlers: TouchGestureHandlers, axes: SwipeAxis[]) {
+		this.element = element
+		this.handlers = handlers
+		this.axes = axes
+
+		this.element.addEventListener("touchstart", this.handleTouchStart, { passive: true })
+		// Not passive: swipes cancel page scrolling
+		this.element.addEventListener("touchmove", this.handleTouchMove, { passive: false })
+		this.element.addEventListener("touchend", this.handleTouchEnd)
+		this.element.addEventListener("touchcancel", this.handleTouchCancel)
+	}
+
+	public destroy(): void {
+		this.element.removeEventListener("touchstart", this.handleTouchStart)
+		this.element.removeEventListener("touchmove", this.handleTouchMove)
+		this.element.removeEventListener("touchend", this.handleTouchEnd)
+		this.element.removeEventListener("touchcancel", this.handleTouchCancel)
+		this.clearTapTimeout()
+	}
+
+	private handleTouchStart = (e: TouchEvent): void => {
+		// Pinch zoom and other multi-touch gestures are left to the browser
+		if (e.touches.length !== 1) {
+			this.tracking = false
+			return
+		}
+		this.tracking = true
+		this.axis = null
+		this.startX = e.touches[0].clientX
+		this.startY = e.touches[0].clientY
+	}
+
+	private handleTouchMove = (e: TouchEvent): void => {
+		if (!this.tracking) return
+
+		const dx = e.touches[0].clientX - this.startX
+		const dy = e.touches[0].clientY - this.startY
+
+		if (this.axis === null) {
+			if (Math.max(Math.abs(dx), Math.abs(dy)) < MOVE_THRESHOLD) return
+			const axis: SwipeAxis = Math.abs(dx) > Math.abs(dy) ? "horizontal" : "vertical"
+			if (!this.axes.includes(axis)) {
+				this.tracking = false
+				return
+			}
+			this.axis = axis
+		}
+
+		e.preventDefault()
+		const rect = this.element.getBoundingClientRect()
+		this.handlers.swipe(this.axis, this.axis === "horizontal" ? dx / rect.width : -dy / rect.height)
+	}
+
+	private handleTouchEnd = (e: TouchEvent): void => {
+		if (!this.tracking) return
+		this.tracking = false
+
+		if (this.axis) {
+			this.handlers.swipeEnd(this.axis)
+			this.axis = null
+			return
+		}
+
+		// Stops the emulated click (which toggles playback) and mouse events
+		e.preventDefault()
+
+		const rect = this.element.getBoundingClientRect()
+		const side: TapSide = e.changedTouches[0].clientX - rect.left < rect.width / 2 ? "left" : "right"
+		const now = Date.now()
+		const sinceLastTap = now - this.lastTapTime
+		this.lastTapTime = now
+
+		if (this.seriesSide === side && sinceLastTap < SERIES_WINDOW) {
+			this.handlers.doubleTap(side, ++this.seriesCount)
+			return
+		}
+
+		if (this.tapTimeout !== null) {
+			this.clearTapTimeout()
+			this.seriesSide = side
+			this.seriesCount = 1
+			this.handlers.doubleTap(side, 1)
+			return
+		}
+
+		this.seriesSide = null
+		this.tapTimeout = window.setTimeout(() => {
+			this.tapTimeout = null
+			this.handlers.tap()
+		}, TAP_DELAY)
+	}
+
+	private handleTouchCancel = (): void => {
+		if (this.tracking && this.axis) {
+			this.handlers.swipeEnd(this.axis)
+		}
+		this.tracking = false
+		this.axis = null
+	}
+
+	private clearTapTimeout(): void {
+		if (this.tapTimeout !== null) {
+			clearTimeout(this.tapTimeout)
+			this.tapTimeout = null
+		}
+	}
+}
@@ -1,4 +1,8 @@
 import { Socket } from "socket.io-client"
+import type Hls from "hls.js"
+import type { WontumPlayer } from "./player"
+import type { WontumError } from "./errors"
+import type { SourceType } from "./source-type"
 
 /**
  * Player configuration options
@@ -7,6 +11,12 @@ export interface WontumPlayerConfig {
 	/** The S3 URL or HLS manifest URL (optional - can be set later with updateSource()) */
 	src?: string
 
+	/** MIME type of src (e.g. "video/mp4") - detected from the extension or Content-Type when omitted */
+	type?: string
+
+	/** Equivalent sources (e.g. multiple CDNs) tried in priority order, with automatic failover (takes precedence over src) */
+	sources?: VideoSource[]
+
 	/** Container element or selector */
 	container: HTMLElement | string
 
@@ -42,6 +52,283 @@ export interface WontumPlayerConfig {
 
 	/** Keep controls always visible (sticky) */
 	stickyControls?: boolean
+
+	/** Resume playback from the last saved position */
+	resume?: ResumeConfig
+
+	/** Playlist of videos to play in sequence (takes precedence over src) */
+	playlist?: PlaylistConfig
+
+	/** Chapters - inline list or URL of a WebVTT chapters file */
+	chapters?: Chapter[] | string
+
+	/** Restrict playback and the progress bar to part of a longer recording */
+	clip?: ClipConfig
+
+	/** URL of a WebVTT thumbnail track (sprite images with #xywh fragments) for seek previews */
+	thumbnails?: string
+
+	/** Plugins to install when the player is created */
+	plugins?: WontumPlugin[]
+
+	/** Recovery policy for fatal hls.js errors */
+	recovery?: RecoveryConfig
+
+	/** Media engines to try before the registered and built-in ones (hls.js, native) */
+	engines?: MediaEngineFactory[]
+
+	/** Live stream, DVR and low-latency HLS settings */
+	live?: LiveConfig
+
+	/** Constraints for automatic quality selection */
+	abr?: AbrConfig
+
+	/** Lock-screen and hardware media key integration via navigator.mediaSession (default: true) */
+	mediaSession?: boolean
+
+	/** Title, artist and artwork published to the media session (playlist items override these) */
+	metadata?: MediaSessionMetadata
+
+	/** Keyboard shortcuts for the focused player */
+	keyboard?: KeyboardConfig
+
+	/** Touch gestures on the video */
+	touch?: TouchConfig
+
+	/** In-video questions that pause playback at set times */
+	checkpoints?: CheckpointConfig
+
+	/** Cue points - inline list or URL of a WebVTT metadata track */
+	cuePoints?: CuePoint[] | string
+
+	/** Completion threshold and persistence of the watched ranges */
+	completion?: CompletionConfig
+}
+
+/**
+ * Completion is judged on the unique content watched (the union of played ranges)
+ */
+export interface CompletionConfig {
+	/** Percentage of unique content (0-100) that must be watched to fire "completed" (default: 90) */
+	threshold?: number
+
+	/** Save watched ranges so they add up across sessions (default: false) */
+	persist?: boolean
+
+	/** Storage adapter (default: localStorage) */
+	storage?: StorageAdapter
+
+	/** Storage key override (default: analytics videoId, then src) */
+	key?: string
+}
+
+/**
+ * A timestamp that fires the cuepoint event when playback crosses it
+ */
+export interface CuePoint {
+	/** Unique id (generated when omitted; the WebVTT cue identifier for metadata tracks) */
+	id?: string
+
+	/** Time in seconds */
+	time: number
+
+	/** App data delivered with the event (metadata cue text is parsed as JSON when possible) */
+	data?: any
+}
+
+/**
+ * A question asked at a point in the video
+ */
+export interface Checkpoint {
+	/** Unique id, reported with answers */
+	id: string
+
+	/** Time in seconds at which playback pauses for the question */
+	time: number
+
+	question: string
+
+	/** "choice" shows options as buttons, "text" a free-text field */
+	type: "choice" | "text"
+
+	/** Options for "choice" questions */
+	options?: string[]
+
+	/** Correct option index ("choice") or answer ("text", compared case-insensitively). Omit for ungraded questions. */
+	correctAnswer?: number | string
+
+	/** Show a Skip button (default: false) */
+	skippable?: boolean
+}
+
+/**
+ * Checkpoint settings
+ */
+export interface CheckpointConfig {
+	items: Checkpoint[]
+
+	/**
+	 * Seeking past an unanswered checkpoint: "block" stops at the checkpoint, "flag" allows the seek
+	 * but emits checkpointseekpast (default: "block")
+	 */
+	seekPolicy?: "block" | "flag"
+}
+
+/**
+ * Touch gesture settings
+ */
+export interface TouchConfig {
+	/** Enable touch gestures: tap, double-tap to skip, swipe to scrub or change volume (default: true) */
+	enabled?: boolean
+
+	/** Seconds skipped by a double-tap on the left or right half (default: 10) */
+	doubleTapSeconds?: number
+
+	/** Horizontal swipe to scrub (default: true) */
+	swipeToSeek?: boolean
+
+	/** Vertical swipe to change volume (default: true) */
+	swipeVolume?: boolean
+
+	/** Lock landscape orientation in fullscreen on phones, for landscape videos (default: true) */
+	orientationLock?: boolean
+}
+
+/**
+ * Player actions that can be bound to keys
+ */
+export type KeyboardAction =
+	| "togglePlay"
+	| "skipBackward"
+	| "skipForward"
+	| "seekBackward"
+	| "seekForward"
+	| "volumeUp"
+	| "volumeDown"
+	| "toggleMute"
+	| "toggleFullscreen"
+	| "toggleSubtitles"
+	| "speedDown"
+	| "speedUp"
+	| "seekToStart"
+	| "seekToEnd"
+	| "showHelp"
+
+/**
+ * Keyboard shortcut settings. Keys are KeyboardEvent.key values ("k", " ", "ArrowLeft", ">", ...).
+ */
+export interface KeyboardConfig {
+	/** Enable keyboard shortcuts (default: true) */
+	enabled?: boolean
+
+	/** Keys per action, replacing the defaults - an empty array disables the action */
+	bindings?: Partial<Record<KeyboardAction, string[]>>
+
+	/** Number keys 0-9 seek to 0%-90% of the video (default: true) */
+	numberKeys?: boolean
+
+	/** Seconds moved by skipBackward/skipForward (j/l, default: 10) */
+	skipSeconds?: number
+
+	/** Seconds moved by seekBackward/seekForward (arrow keys, default: 5) */
+	seekSeconds?: number
+
+	/** Volume change per volumeUp/volumeDown press, 0-1 (default: 0.05) */
+	volumeStep?: number
+}
+
+/**
+ * Metadata shown by the OS for the current video (lock screen, notification, media keys overlay)
+ */
+export interface MediaSessionMetadata {
+	title?: string
+	artist?: string
+	album?: string
+
+	/** Artwork images - falls back to the poster when omitted */
+	artwork?: MediaImage[]
+}
+
+/**
+ * Adaptive bitrate (automatic quality) constraints
+ */
+export interface AbrConfig {
+	/** Highest resolution (video height in px) automatic selection may pick */
+	maxHeight?: number
+
+	/** Lowest resolution (video height in px) automatic selection may pick */
+	minHeight?: number
+
+	/** Don't pick levels larger than the player's rendered size (default: false) */
+	capToPlayerSize?: boolean
+
+	/** Cap to saveDataMaxHeight when the browser's data saver (navigator.connection.saveData) is on (default: true) */
+	respectSaveData?: boolean
+
+	/** Resolution cap in data-saver mode (default: 480) */
+	saveDataMaxHeight?: number
+
+	/** Remember a manual quality choice for later videos (default: false) */
+	persist?: boolean
+
+	/** Storage adapter for the remembered choice (default: localStorage) */
+	storage?: StorageAdapter
+}
+
+/**
+ * Live stream settings
+ */
+export interface LiveConfig {
+	/** Enable low-latency HLS (LL-HLS) part loading in hls.js (default: true) */
+	lowLatency?: boolean
+
+	/** Target distance from the live edge in seconds (hls.js liveSyncDuration) */
+	targetLatency?: number
+
+	/** Maximum distance from the live edge before hls.js jumps forward (hls.js liveMaxLatencyDuration, requires targetLatency) */
+	maxLatency?: number
+
+	/** Maximum playback rate hls.js may use to catch up with the target latency (default: 1, no catch-up) */
+	maxCatchUpRate?: number
+
+	/** Seconds beyond the target latency that still count as "live" for the Go Live button (default: 10) */
+	liveEdgeThreshold?: number
+
+	/** Let viewers seek back within the DVR window (default: true). When false, seeks land on the live edge */
+	dvr?: boolean
+}
+
+/**
+ * Sub-range of a recording to play, in seconds
+ */
+export interface ClipConfig {
+	/** Clip start (default: 0) */
+	start?: number
+
+	/** Clip end (default: end of the video) */
+	end?: number
+}
+
+/**
+ * A time range in seconds
+ */
+export interface TimeRange {
+	start: number
+	end: number
+}
+
+/**
+ * One of several equivalent sources for the same video
+ */
+export interface VideoSource {
+	/** The S3 URL or HLS manifest URL */
+	src: string
+
+	/** MIME type (e.g. "application/x-mpegURL") */
+	type?: string
+
+	/** Lower values are tried first (default: array order) */
+	priority?: number
 }
 
 export interface PlayerTheme {
@@ -152,10 +439,395 @@ export interface SocketIOAnalyticsHandler {
 	onDisconnect?: (reason: string) => void
 }
 
+/**
+ * Key/value storage adapter (localStorage-compatible, may be async for backend persistence)
+ */
+export interface StorageAdapter {
+	getItem(key: string): string | null | Promise<string | null>
+	setItem(key: string, value: string): void | Promise<void>
+	removeItem(key: string): void | Promise<void>
+}
+
+/**
+ * Resume ("continue where you left off") configuration
+ */
+export interface ResumeConfig {
+	/** Enable saving and restoring the playback position */
+	enabled?: boolean
+
+	/** Storage adapter (default: localStorage) */
+	storage?: StorageAdapter
+
+	/** Storage key override (default: analytics videoId, then src) */
+	key?: string
+
+	/** Seconds between position saves during playback (default: 5) */
+	saveInterval?: number
+
+	/** Don't restore positions earlier than this many seconds (default: 5) */
+	minPosition?: number
+
+	/** Don't restore when this close to the end, in seconds (default: 15) */
+	endThreshold?: number
+
+	/** Show a "Resume / Start over" prompt instead of resuming automatically (default: false) */
+	showPrompt?: boolean
+}
+
+/**
+ * A single video in a playlist
+ */
+export interface PlaylistItem {
+	/** The S3 URL, HLS manifest URL or MP4/WebM file URL */
+	src: string
+
+	/** MIME type of src (detected when omitted) */
+	type?: string
+
+	/** Display title (shown in the up-next screen) */
+	title?: string
+
+	/** Poster image URL */
+	poster?: string
+
+	/** Artist shown in the media session */
+	artist?: string
+
+	/** Artwork shown in the media session (falls back to poster) */
+	artwork?: MediaImage[]
+
+	/** Subtitle tracks for this item */
+	subtitles?: SubtitleTrack[]
+
+	/** Video identifier (used for analytics and resume) */
+	videoId?: string
+}
+
+export type RepeatMode = "none" | "one" | "all"
+
+/**
+ * Playlist configuration
+ */
+export interface PlaylistConfig {
+	/** Items to play, in order */
+	items: PlaylistItem[]
+
+	/** Index of the first item to load (default: 0) */
+	startIndex?: number
+
+	/** Automatically advance to the next item when one ends (default: true) */
+	autoAdvance?: boolean
+
+	/** Seconds to count down on the up-next screen before advancing, 0 to advance immediately (default: 5) */
+	countdown?: number
+
+	/** Repeat mode (default: "none") */
+	repeat?: RepeatMode
+
+	/** Shuffle play order (default: false) */
+	shuffle?: boolean
+}
+
+/**
+ * A chapter (named section) of a video
+ */
+export interface Chapter {
+	title: string
+
+	/** Start time in seconds */
+	startTime: number
+
+	/** End time in seconds (default: start of the next chapter, or the video duration) */
+	endTime?: number
+}
+
+/**
+ * Recovery policy for fatal hls.js network and media errors
+ */
+export interface RecoveryConfig {
+	/** Maximum recovery attempts per error kind before giving up (default: 3) */
+	maxAttempts?: number
+
+	/** Delay before the first retry in milliseconds, doubled on each attempt (default: 1000) */
+	baseDelay?: number
+
+	/** Maximum delay between retries in milliseconds (default: 10000) */
+	maxDelay?: number
+
+	/** Swap the audio codec after this many failed media recoveries (default: 1) */
+	swapAudioCodecAfter?: number
+
+	/** Re-sign the source through S3Handler before reloading after HTTP 403 (default: true) */
+	resignOnForbidden?: boolean
+}
+
+export type RecoveryAction = "reload" | "resign" | "recoverMedia" | "swapAudioCodec"
+
+/**
+ * Audio or text track exposed by a media engine
+ */
+export interface MediaTrack {
+	/** Engine-specific track id (index into the engine's track list) */
+	id: number
+
+	/** Display name */
+	name: string
+
+	/** BCP 47 language code */
+	language?: string
+
+	/** Whether the track is marked as default in the source */
+	default?: boolean
+}
+
+export type MediaErrorKind = "network" | "media" | "other"
+
+/**
+ * Events a media engine reports back to the player
+ */
+export interface MediaEngineEventMap {
+	/** Quality levels are known (e.g. manifest parsed) */
+	levels: { levels: QualityLevel[] }
+
+	/** The quality level being played changed */
+	levelswitched: { level: number }
+
+	/** Media data was buffered - used to reset network recovery */
+	buffered: undefined
+
+	/** Whether the stream is live, once the engine knows */
+	live: { live: boolean }
+
+	/** The list of audio tracks changed */
+	audiotracks: { tracks: MediaTrack[] }
+
+	/** The active audio track changed */
+	audiotrackswitched: { id: number }
+
+	/** Fatal error */
+	error: { error: WontumError; kind: MediaErrorKind }
+}
+
+export type MediaEngineEventArgs<K extends keyof MediaEngineEventMap> = MediaEngineEventMap[K] extends undefined ? [] : [data: MediaEngineEventMap[K]]
+
+/**
+ * Loading statistics an engine can report for getStats()
+ */
+export interface MediaEngineStats {
+	/** Estimated bandwidth in bits per second */
+	bandwidthEstimate: number | null
+
+	/** Level index being loaded - the ABR target */
+	loadingLevel: number
+
+	fragmentsLoaded: number
+
+	/** Average fragment load time in milliseconds */
+	averageFragmentLoadTime: number | null
+
+	/** Load time of the most recent fragment in milliseconds */
+	lastFragmentLoadTime: number | null
+}
+
+/**
+ * Playback statistics from player.getStats()
+ */
+export interface PlaybackStats {
+	/** Media engine name, e.g. "hls.js" */
+	engine: string | null
+	sourceType: SourceType | null
+
+	/** Rendered video resolution */
+	width: number
+	height: number
+
+	/** Estimated bandwidth in bits per second */
+	bandwidthEstimate: number | null
+
+	/** Bitrate of the level being played, in bits per second */
+	currentBitrate: number | null
+
+	/** Bitrate of the level being loaded (ABR target), in bits per second */
+	targetBitrate: number | null
+
+	/** Seconds buffered ahead of the playhead */
+	bufferAhead: number
+
+	/** From getVideoPlaybackQuality() */
+	droppedFrames: number
+	decodedFrames: number
+
+	/** Quality level switches since the source loaded */
+	levelSwitches: number
+
+	fragmentsLoaded: number
+
+	/** Fragment load times in milliseconds */
+	averageFragmentLoadTime: number | null
+	lastFragmentLoadTime: number | null
+
+	/** Live latency in seconds, null for VOD */
+	latency: number | null
+	targetLatency: number | null
+}
+
+/**
+ * What an engine gets when it is created
+ */
+export interface MediaEngineContext {
+	videoElement: HTMLVideoElement
+	config: WontumPlayerConfig
+}
+
+/**
+ * Playback engine for a source (hls.js, native, DASH, test doubles, ...)
+ */
+export interface MediaEngine {
+	/** Engine name, matching its factory */
+	readonly name: string
+
+	/** Start loading the (already signed) URL into the video element */
+	load(url: string): void | Promise<void>
+
+	/** Release the engine and detach it from the video element */
+	destroy(): void
+
+	/** Available quality levels */
+	getLevels(): QualityLevel[]
+
+	/** Current quality level index, -1 for automatic selection */
+	getCurrentLevel(): number
+
+	/** Select a quality level index, -1 for automatic selection */
+	setCurrentLevel(index: number): void
+
+	getAudioTracks(): MediaTrack[]
+
+	/** Id of the active audio track, -1 if none */
+	getAudioTrack(): number
+
+	setAudioTrack(id: number): void
+
+	getTextTracks(): MediaTrack[]
+
+	/** Id of the active text track, -1 if none */
+	getTextTrack(): number
+
+	/** Select a text track id, -1 to disable */
+	setTextTrack(id: number): void
+
+	on<K extends keyof MediaEngineEventMap>(type: K, callback: (data: MediaEngineEventMap[K]) => void): void
+
+	off<K extends keyof MediaEngineEventMap>(type: K, callback: (data: MediaEngineEventMap[K]) => void): void
+
+	/** Loading statistics for getStats() (optional) */
+	getStats?(): MediaEngineStats
+
+	/** Restrict automatic selection to level indices min..max (optional - engines without ABR ignore constraints) */
+	setAutoLevelRange?(minIndex: number, maxIndex: number): void
+
+	/** Optional live hooks - the player falls back to the video element's seekable range */
+	getLiveSyncPosition?(): number | null
+	getLatency?(): number | null
+	getTargetLatency?(): number | null
+
+	/** Optional recovery hooks used by the recovery policy */
+	startLoad?(position?: number): void
+	recoverMediaError?(): void
+	swapAudioCodec?(): void
+	reload?(url: string): void
+}
+
+/**
+ * Creates engines and tells the player which sources an engine can play
+ */
+export interface MediaEngineFactory {
+	name: string
+	canPlay(sourceType: SourceType, mimeType: string | null, videoElement: HTMLVideoElement): boolean
+	create(context: MediaEngineContext): MediaEngine
+}
+
+/**
+ * Seek preview thumbnail from a WebVTT thumbnail track
+ */
+export interface Thumbnail {
+	startTime: number
+	endTime: number
+
+	/** Signed image URL */
+	url: string
+
+	/** Region of a sprite image (#xywh) - absent when the image is a single thumbnail */
+	x?: number
+	y?: number
+	width?: number
+	height?: number
+}
+
+/**
+ * Named UI areas plugins can render into
+ */
+export type UISlotName = "overlay" | "controls-left" | "controls-right"
+
+/**
+ * Access to player internals handed to plugins
+ */
+export interface PluginContext {
+	/** The player instance */
+	player: WontumPlayer
+
+	/** The player container element */
+	container: HTMLElement
+
+	/** The underlying video element */
+	videoElement: HTMLVideoElement
+
+	/** The current hls.js instance (null for native HLS or before a source is loaded) */
+	getHls(): Hls | null
+
+	/** The current media engine (null before a source is loaded) */
+	getEngine(): MediaEngine | null
+
+	/** Subscribe to player events */
+	on: WontumPlayer["on"]
+
+	/** Unsubscribe from player events */
+	off: WontumPlayer["off"]
+
+	/** Emit a player event */
+	emit<K extends PlayerEventType>(type: K, ...args: PlayerEventArgs<K>): void
+
+	/** Get a UI slot element to render into */
+	getSlot(name: UISlotName): HTMLElement
+}
+
+/**
+ * Player plugin
+ */
+export interface WontumPlugin {
+	/** Unique plugin name */
+	name: string
+
+	/** Called once when the plugin is installed */
+	install(context: PluginContext): void
+
+	/** Called each time a new source has been loaded */
+	onSourceLoad?(src: string, context: PluginContext): void
+
+	/** Called when the player is destroyed - remove DOM and listeners here */
+	onDestroy?(context: PluginContext): void
+}
+
+/**
+ * Playback status - PlayerState's booleans are derived from it
+ */
+export type PlaybackStatus = "idle" | "loading" | "ready" | "playing" | "paused" | "buffering" | "seeking" | "ended" | "error"
+
 /**
  * Player state
  */
 export interface PlayerState {
+	status: PlaybackStatus
 	playing: boolean
 	paused: boolean
 	ended: boolean
@@ -168,51 +840,85 @@ export interface PlayerState {
 	quality: string
 	availableQualities: string[]
 	fullscreen: boolean
+	/** Id of the active audio track, -1 when the source has no alternate audio */
+	audioTrack: number
+	availableAudioTracks: MediaTrack[]
+	live: boolean
+	atLiveEdge: boolean
 }
 
 /**
  * Player events (compatible with Mux Player and HTML5 MediaElement events)
+ * Maps each event type to the payload delivered in PlayerEvent.data
  */
-export type PlayerEventType =
+export interface PlayerEventMap {
 	// Playback events
-	| "play"
-	| "pause"
-	| "playing"
-	| "ended"
-	| "timeupdate"
-	| "volumechange"
-	| "ratechange"
-	| "seeked"
-	| "seeking"
-	| "waiting"
+	play: undefined
+	pause: undefined
+	playing: undefined
+	ended: undefined
+	timeupdate: { currentTime: number }
+	volumechange: { volume: number; muted: boolean }
+	ratechange: { playbackRate: number }
+	seeked: { currentTime: number }
+	seeking: undefined
+	waiting: undefined
 	// Loading events
-	| "loadstart"
-	| "loadeddata"
-	| "loadedmetadata"
-	| "canplay"
-	| "canplaythrough"
-	| "durationchange"
-	| "progress"
+	loadstart: undefined
+	loadeddata: undefined
+	loadedmetadata: { duration: number }
+	canplay: undefined
+	canplaythrough: undefined
+	durationchange: { duration: number }
+	progress: { buffered: TimeRanges }
 	// Error and state events
-	| "error"
-	| "abort"
-	| "emptied"
-	| "stalled"
-	| "suspend"
+	error: { error: WontumError }
+	abort: undefined
+	emptied: undefined
+	stalled: undefined
+	suspend: undefined
 	// Custom player events
-	| "qualitychange"
-	| "fullscreenchange"
-	| "pictureinpictureenter"
-	| "pictureinpictureexit"
-	| "resize"
-	| "sourcechange"
-
-export interface PlayerEvent {
-	type: PlayerEventType
-	data?: any
+	qualitychange: { quality: string; level: number }
+	fullscreenchange: { fullscreen: boolean }
+	pictureinpictureenter: Record<string, never>
+	pictureinpictureexit: Record<string, never>
+	resize: { videoWidth: number; videoHeight: number }
+	sourcechange: { src: string }
+	resume: { position: number }
+	playlistitemchange: { index: number; previousIndex: number; item: PlaylistItem }
+	chapterchange: { chapter: Chapter | null; index: number }
+	recoveryattempt: { error: WontumError; attempt: number; maxAttempts: number; delay: number; action: RecoveryAction }
+	recoveryfailed: { error: WontumError; attempts: number }
+	sourcefailover: { from: string; to: string; index: number; error: WontumError }
+	audiotrackchange: { id: number; track: MediaTrack | null }
+	statechange: { from: PlaybackStatus; to: PlaybackStatus }
+	loopchange: { range: TimeRange | null }
+	livechange: { live: boolean }
+	liveedgechange: { atLiveEdge: boolean }
+	// Checkpoint events
+	checkpoint: { checkpoint: Checkpoint }
+	checkpointanswer: { checkpoint: Checkpoint; answer: number | string; correct: boolean | null }
+	checkpointskip: { checkpoint: Checkpoint }
+	checkpointseekpast: { checkpoint: Checkpoint; time: number; blocked: boolean }
+	cuepoint: { cuePoint: CuePoint }
+	completed: { percentWatched: number }
+}
+
+export type PlayerEventType = keyof PlayerEventMap
+
+export interface PlayerEvent<K extends PlayerEventType = PlayerEventType> {
+	type: K
+	data: PlayerEventMap[K]
 	timestamp: number
 }
 
+export type PlayerEventCallback<K extends PlayerEventType = PlayerEventType> = (event: PlayerEvent<K>) => void
+
+/**
+ * Arguments to emit() - events without a payload take no data argument
+ */
+export type PlayerEventArgs<K extends PlayerEventType> = PlayerEventMap[K] extends undefined ? [] : [data: PlayerEventMap[K]]
+
 /**
  * Analytics event types
  */
@@ -238,3 +944,18 @@ export interface SubtitleTrack {
 	srclang: string
 	default?: boolean
 }
+
+/**
+ * A subtitle track listed by getSubtitleTracks() - a sideloaded <track> or an HLS manifest rendition
+ */
+export interface SubtitleTrackInfo {
+	/** Position in getSubtitleTracks(), as passed to enableSubtitles() */
+	index: number
+	label: string
+	language: string
+	kind: TextTrackKind
+	/** "showing" for the active track */
+	mode: TextTrackMode
+	/** "sideloaded" for `subtitles` config tracks, "manifest" for subtitles declared in the m3u8 */
+	source: "sideloaded" | "manifest"
+}
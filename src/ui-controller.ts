@@ -1,4 +1,20 @@
 import { WontumPlayer } from "./player"
+import { Checkpoint, KeyboardAction, PlaylistItem, TimeRange, UISlotName } from "./types"
+import { WontumError } from "./errors"
+import { KeyboardShortcuts } from "./keyboard"
+import { SwipeAxis, TapSide, TouchGestures } from "./touch"
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
+
+// How non-character keys are shown in the shortcut help overlay
+const KEY_NAMES: Record<string, string> = {
+	" ": "Space",
+	ArrowLeft: "←",
+	ArrowRight: "→",
+	ArrowUp: "↑",
+	ArrowDown: "↓",
+	Escape: "Esc",
+}
 
 /**
  * UI Controller - Manages player controls and interface
@@ -17,13 +33,41 @@ export class UIController {
 	private fullscreenButton: HTMLElement
 	private pipButton: HTMLElement
 	private settingsButton: HTMLElement
+	private liveButton: HTMLElement
 	// private timeDisplay: HTMLElement
 	private volumeSlider: HTMLInputElement
 	private progressInput: HTMLInputElement
+	private progressSegments!: HTMLElement
+	private progressTooltip!: HTMLElement
+	private loopRegion!: HTMLElement
+	private checkpointMarkers!: HTMLElement
+	private loopButton: HTMLElement
+	// A point set with the loop button, waiting for B
+	private loopStart: number | null = null
 	// private controlsVisible = true
 	private hideControlsTimeout: number | null = null
 	private stickyControls = false
 	private isVolumeSliderActive = false
+	private resumeOverlay: HTMLElement | null = null
+	private upNextOverlay: HTMLElement | null = null
+	private upNextInterval: number | null = null
+	private pluginOverlay: HTMLElement
+	private errorOverlay: HTMLElement | null = null
+	private statsOverlay: HTMLElement | null = null
+	private checkpointOverlay: HTMLElement | null = null
+	private statsInterval: number | null = null
+	private keyboard: KeyboardShortcuts
+	// Whether the container was made focusable here, so destroy() can undo it
+	private addedTabIndex = false
+	private shortcutsOverlay: HTMLElement | null = null
+	private touchGestures: TouchGestures | null = null
+	private tapRipple: HTMLElement | null = null
+	private gestureIndicator: HTMLElement | null = null
+	private gestureTimeout: number | null = null
+	// Playhead and volume when the current swipe began
+	private swipeStartTime: number | null = null
+	private swipeStartVolume: number | null = null
+	private scrubTarget: number | null = null
 
 	constructor(container: HTMLElement, player: WontumPlayer) {
 		this.container = container
@@ -40,6 +84,11 @@ export class UIController {
 		this.controlsContainer = this.createControls()
 		this.container.appendChild(this.controlsContainer)
 
+		// Overlay slot for plugins (watermarks, quizzes, ...)
+		this.pluginOverlay = document.createElement("div")
+		this.pluginOverlay.className = "wontum-slot-overlay"
+		this.container.appendChild(this.pluginOverlay)
+
 		// Query elements - use fresh queries to ensure we get the newly created elements
 		this.playButton = this.controlsContainer.querySelector(".wontum-play-btn")!
 		this.skipBackwardButton = this.controlsContainer.querySelector(".wontum-skip-backward-btn")!
@@ -49,6 +98,8 @@ export class UIController {
 		this.fullscreenButton = this.controlsContainer.querySelector(".wontum-fullscreen-btn")!
 		this.pipButton = this.controlsContainer.querySelector(".wontum-pip-btn")!
 		this.settingsButton = this.controlsContainer.querySelector(".wontum-settings-btn")!
+		this.liveButton = this.controlsContainer.querySelector(".wontum-live-btn")!
+		this.loopButton = this.controlsContainer.querySelector(".wontum-loop-btn")!
 		// this.timeDisplay = this.controlsContainer.querySelector(".wontum-time-display")!
 		this.volumeSlider = this.controlsContainer.querySelector(".wontum-volume-slider")! as HTMLInputElement
 
@@ -62,22 +113,176 @@ export class UIController {
 		}
 
 		// Check for sticky controls config
-		this.stickyControls = this.player["config"].stickyControls || false
+		this.stickyControls = this.player.getConfig().stickyControls || false
 		if (this.stickyControls) {
 			this.controlsContainer.classList.add("sticky")
 		}
 
+		this.keyboard = new KeyboardShortcuts(this.player.getConfig().keyboard)
+		if (this.keyboard.isEnabled()) {
+			// Shortcuts only apply while this player has focus, so several players can share a page
+			if (!this.container.hasAttribute("tabindex")) {
+				this.container.tabIndex = 0
+				this.addedTabIndex = true
+			}
+			this.container.addEventListener("keydown", this.handleKeydown)
+		}
+
+		this.setupTouchGestures()
 		this.setupEventListeners()
 		this.setupPlayerEventListeners()
 	}
 
+	/**
+	 * Tap toggles the controls, double-tap skips, swipes scrub (horizontal) or change volume (vertical)
+	 */
+	private setupTouchGestures(): void {
+		const touch = this.player.getConfig().touch
+		if (touch?.enabled === false) return
+
+		const axes: SwipeAxis[] = []
+		if (touch?.swipeToSeek !== false) axes.push("horizontal")
+		if (touch?.swipeVolume !== false) axes.push("vertical")
+
+		// Leave the browser only the panning the gestures don't use, so swipes don't scroll the page
+		const video = this.player.getVideoElement()
+		video.style.touchAction = [axes.includes("horizontal") ? "" : "pan-x", axes.includes("vertical") ? "" : "pan-y", "pinch-zoom"].filter(Boolean).join(" ")
+
+		this.touchGestures = new TouchGestures(
+			video,
+			{
+				tap: () => {
+					if (this.controlsContainer.classList.contains("hidden")) {
+						this.showControls()
+						this.resetHideControlsTimeout()
+					} else {
+						this.hideControls()
+					}
+				},
+				doubleTap: (side, count) => {
+					const seconds = touch?.doubleTapSeconds ?? 10
+					if (side === "left") {
+						this.player.skipBackward(seconds)
+					} else {
+						this.player.skipForward(seconds)
+					}
+					this.showTapRipple(side, seconds * count)
+				},
+				swipe: (axis, delta) => {
+					if (axis === "horizontal") {
+						this.scrub(delta)
+					} else {
+						this.swipeVolume(delta)
+					}
+				},
+				swipeEnd: (axis) => {
+					if (axis === "horizontal" && this.scrubTarget !== null) {
+						this.player.seek(this.scrubTarget)
+						this.progressTooltip.classList.remove("visible")
+					}
+					this.swipeStartTime = null
+					this.swipeStartVolume = null
+					this.scrubTarget = null
+					this.hideGestureIndicator()
+				},
+			},
+			axes,
+		)
+	}
+
+	/**
+	 * Preview the swipe target on the progress bar - the seek happens when the finger lifts
+	 */
+	private scrub(delta: number): void {
+		const timeline = this.getTimeline()
+		if (!timeline) return
+
+		if (this.swipeStartTime === null) this.swipeStartTime = this.player.getState().currentTime
+		const length = timeline.end - timeline.start
+		this.scrubTarget = Math.min(Math.max(this.swipeStartTime + delta * length, timeline.start), timeline.end)
+
+		this.showControls()
+		this.resetHideControlsTimeout()
+		this.showProgressTooltip((this.scrubTarget - timeline.start) / length)
+	}
+
+	/**
+	 * A swipe the full height of the player goes from silent to full volume
+	 */
+	private swipeVolume(delta: number): void {
+		const state = this.player.getState()
+		if (this.swipeStartVolume === null) this.swipeStartVolume = state.muted ? 0 : state.volume
+
+		const volume = Math.min(Math.max(this.swipeStartVolume + delta, 0), 1)
+		this.player.setVolume(volume)
+		if (state.muted && volume > 0) this.player.unmute()
+		this.showGestureIndicator(`Volume ${Math.round(volume * 100)}%`)
+	}
+
+	private showTapRipple(side: TapSide, seconds: number): void {
+		this.tapRipple?.remove()
+
+		const ripple = document.createElement("div")
+		ripple.className = `wontum-tap-ripple ${side}`
+		ripple.textContent = side === "left" ? `« ${seconds}s` : `${seconds}s »`
+		ripple.addEventListener("animationend", () => {
+			ripple.remove()
+			if (this.tapRipple === ripple) this.tapRipple = null
+		})
+
+		this.container.appendChild(ripple)
+		this.tapRipple = ripple
+	}
+
+	private showGestureIndicator(text: string): void {
+		if (this.gestureTimeout) {
+			clearTimeout(this.gestureTimeout)
+			this.gestureTimeout = null
+		}
+		if (!this.gestureIndicator) {
+			this.gestureIndicator = document.createElement("div")
+			this.gestureIndicator.className = "wontum-gesture-indicator"
+			this.container.appendChild(this.gestureIndicator)
+		}
+		this.gestureIndicator.textContent = text
+	}
+
+	private hideGestureIndicator(): void {
+		if (!this.gestureIndicator) return
+		this.gestureTimeout = window.setTimeout(() => {
+			this.gestureTimeout = null
+			this.gestureIndicator?.remove()
+			this.gestureIndicator = null
+		}, 600)
+	}
+
+	/**
+	 * Lock phones to landscape in fullscreen, for landscape videos (Screen Orientation API, Android Chrome)
+	 */
+	private updateOrientationLock(fullscreen: boolean): void {
+		if (this.player.getConfig().touch?.orientationLock === false) return
+
+		const orientation = screen.orientation as ScreenOrientation & { lock?: (orientation: string) => Promise<void> }
+		if (!orientation?.lock || !window.matchMedia("(pointer: coarse)").matches) return
+
+		if (fullscreen) {
+			const video = this.player.getVideoElement()
+			if (video.videoWidth < video.videoHeight) return
+			orientation.lock("landscape").catch(() => {
+				// Not supported outside fullscreen or on this device
+			})
+		} else {
+			orientation.unlock()
+		}
+	}
+
 	private injectStyles(): void {
 		const styleId = "wontum-player-styles"
 
 		// Only inject styles once (class is added in constructor)
 		if (document.getElementById(styleId)) return
 
-		const theme = this.player["config"].theme || {}
+		const theme = this.player.getConfig().theme || {}
 		const primaryColor = theme.primaryColor || "#3b82f6"
 		const accentColor = theme.accentColor || "#2563eb"
 		const fontFamily = theme.fontFamily || "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif"
@@ -229,6 +434,93 @@ export class UIController {
         box-shadow: 0 0 8px rgba(255, 255, 255, 0.3);
       }
       
+      .wontum-progress-segments {
+        position: absolute;
+        inset: 0;
+      }
+      
+      .wontum-progress-segment {
+        position: absolute;
+        top: 0;
+        height: 100%;
+        background: rgba(255, 255, 255, 0.25);
+        border-radius: 2px;
+        overflow: hidden;
+      }
+      
+      .wontum-progress-segment-fill {
+        height: 100%;
+        width: 0%;
+        background: var(--primary-color);
+      }
+      
+      .wontum-progress-container.segmented .wontum-progress-track,
+      .wontum-progress-container.segmented .wontum-progress-filled {
+        display: none;
+      }
+      
+      .wontum-progress-loop {
+        position: absolute;
+        top: -2px;
+        bottom: -2px;
+        display: none;
+        background: rgba(255, 255, 255, 0.35);
+        border-left: 2px solid white;
+        border-right: 2px solid white;
+        pointer-events: none;
+      }
+      
+      .wontum-progress-loop.pending {
+        width: 0;
+        border-right: none;
+      }
+      
+      .wontum-loop-btn {
+        font-size: 12px;
+        font-weight: 600;
+      }
+      
+      .wontum-loop-btn.pending,
+      .wontum-loop-btn.active {
+        color: var(--primary-color);
+      }
+      
+      .wontum-progress-tooltip {
+        position: absolute;
+        bottom: calc(100% + 10px);
+        transform: translateX(-50%);
+        background: rgba(20, 20, 20, 0.95);
+        color: white;
+        font-size: 12px;
+        padding: 4px 8px;
+        border-radius: 4px;
+        white-space: nowrap;
+        pointer-events: none;
+        display: none;
+        text-align: center;
+      }
+      
+      .wontum-progress-tooltip.visible {
+        display: block;
+      }
+      
+      .wontum-progress-tooltip-title {
+        font-weight: 600;
+      }
+      
+      .wontum-progress-tooltip-thumbnail {
+        background-repeat: no-repeat;
+        border-radius: 2px;
+        margin: 0 auto 4px;
+      }
+      
+      .wontum-progress-tooltip-thumbnail.full {
+        width: 160px;
+        height: 90px;
+        background-size: cover;
+        background-position: center;
+      }
+      
       .wontum-progress-input {
         position: absolute;
         width: 100%;
@@ -285,6 +577,37 @@ export class UIController {
         letter-spacing: 0.3px;
       }
       
+      .wontum-player-container.wontum-live .wontum-time-display {
+        display: none;
+      }
+      
+      .wontum-player-container.wontum-live-no-dvr .wontum-progress-container {
+        display: none;
+      }
+      
+      .wontum-live-btn {
+        gap: 6px;
+        padding: 0 8px;
+        font-size: 12px;
+        font-weight: 600;
+        letter-spacing: 0.5px;
+      }
+      
+      .wontum-live-dot {
+        width: 8px;
+        height: 8px;
+        border-radius: 50%;
+        background: rgba(255, 255, 255, 0.5);
+      }
+      
+      .wontum-live-btn.at-edge {
+        cursor: default;
+      }
+      
+      .wontum-live-btn.at-edge .wontum-live-dot {
+        background: #ff0033;
+      }
+      
       .wontum-volume-container {
         position: relative;
         display: flex;
@@ -361,6 +684,29 @@ export class UIController {
         flex: 1;
       }
       
+      .wontum-slot-overlay {
+        position: absolute;
+        inset: 0;
+        pointer-events: none;
+        z-index: 8;
+      }
+      
+      .wontum-slot-overlay > * {
+        pointer-events: auto;
+      }
+      
+      .wontum-slot-controls-left,
+      .wontum-slot-controls-right {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+      }
+      
+      .wontum-slot-controls-left:empty,
+      .wontum-slot-controls-right:empty {
+        display: none;
+      }
+      
       .wontum-loading {
         position: absolute;
         top: 50%;
@@ -565,6 +911,59 @@ export class UIController {
         background: rgba(255, 255, 255, 0.05);
       }
       
+      .wontum-audio-menu {
+        padding: 6px 0;
+      }
+      
+      .wontum-audio-option {
+        padding: 10px 16px;
+        cursor: pointer;
+        white-space: nowrap;
+        color: rgba(255, 255, 255, 0.9);
+        font-size: 13px;
+        transition: all 0.15s ease;
+      }
+      
+      .wontum-audio-option:hover {
+        background: rgba(255, 255, 255, 0.12);
+        color: white;
+      }
+      
+      .wontum-audio-option.active {
+        color: var(--primary-color);
+        background: rgba(255, 255, 255, 0.05);
+      }
+      
+      .wontum-chapter-menu {
+        padding: 6px 0;
+      }
+      
+      .wontum-chapter-option {
+        padding: 10px 16px;
+        cursor: pointer;
+        color: rgba(255, 255, 255, 0.9);
+        font-size: 13px;
+        display: flex;
+        justify-content: space-between;
+        gap: 16px;
+        transition: all 0.15s ease;
+      }
+      
+      .wontum-chapter-option:hover {
+        background: rgba(255, 255, 255, 0.12);
+        color: white;
+      }
+      
+      .wontum-chapter-option.active {
+        color: var(--primary-color);
+        background: rgba(255, 255, 255, 0.05);
+      }
+      
+      .wontum-chapter-time {
+        opacity: 0.7;
+        font-variant-numeric: tabular-nums;
+      }
+      
       .wontum-controls.sticky {
         opacity: 1 !important;
         transform: translateY(0) !important;
@@ -576,101 +975,515 @@ export class UIController {
         transform: translateY(0) !important;
         pointer-events: all !important;
       }
-    `
-
-		document.head.appendChild(style)
-	}
-
-	private createProgressBar(): void {
-		const progressContainer = document.createElement("div")
-		progressContainer.className = "wontum-progress-container"
-		progressContainer.innerHTML = `
-      <div class="wontum-progress-track"></div>
-      <div class="wontum-progress-filled"></div>
-      <input type="range" class="wontum-progress-input" min="0" max="100" value="0" step="0.1">
-    `
-		this.container.appendChild(progressContainer)
-		this.progressContainer = progressContainer
-	}
-
-	private createControls(): HTMLElement {
-		const controls = document.createElement("div")
-		controls.className = "wontum-controls"
-		controls.innerHTML = `
-      <div class="wontum-center-controls">
-        <button class="wontum-center-btn skip wontum-skip-backward-btn" aria-label="Skip backward 10s">
-          ${this.getSkipBackwardIcon()}
-        </button>
-        
-        <button class="wontum-center-btn play wontum-play-btn" aria-label="Play">
-          ${this.getPlayIcon()}
-        </button>
-        
-        <button class="wontum-center-btn skip wontum-skip-forward-btn" aria-label="Skip forward 10s">
-          ${this.getSkipForwardIcon()}
-        </button>
-      </div>
       
-      <div class="wontum-controls-row">
-        
-        <div class="wontum-volume-container">
-          <button class="wontum-btn wontum-volume-btn" aria-label="Mute">
-            ${this.getVolumeIcon()}
-          </button>
-          <div class="wontum-volume-slider-wrapper">
-            <input type="range" class="wontum-volume-slider" min="0" max="100" value="100" step="1" orient="vertical">
-          </div>
-        </div>
-        
-        <div class="wontum-time-display">
-          <span class="wontum-current-time">0:00</span> / <span class="wontum-duration">0:00</span>
-        </div>
-        
-        <div class="wontum-spacer"></div>
-        
-        <div class="wontum-settings-container" style="position: relative;">
-          <button class="wontum-btn wontum-settings-btn" aria-label="Settings">
-            ${this.getSettingsIcon()}
-          </button>
-          <div class="wontum-settings-panel">
-            <div class="wontum-settings-tabs">
-              <button class="wontum-tab active" data-tab="general">General</button>
-              <button class="wontum-tab" data-tab="quality">Quality</button>
-              <button class="wontum-tab" data-tab="speed">Speed</button>
-              <button class="wontum-tab" data-tab="subtitles">Subtitles</button>
-            </div>
-            <div class="wontum-settings-content">
-              <div class="wontum-tab-panel active" data-panel="general">
-                <div class="wontum-settings-menu"></div>
-              </div>
-              <div class="wontum-tab-panel" data-panel="quality">
-                <div class="wontum-quality-menu"></div>
-              </div>
-              <div class="wontum-tab-panel" data-panel="speed">
-                <div class="wontum-speed-menu"></div>
-              </div>
-              <div class="wontum-tab-panel" data-panel="subtitles">
-                <div class="wontum-subtitle-menu"></div>
-              </div>
-            </div>
-          </div>
-        </div>
-        
-        <button class="wontum-btn wontum-pip-btn" aria-label="Picture-in-Picture">
-          ${this.getPipIcon()}
-        </button>
-        
-        <button class="wontum-btn wontum-fullscreen-btn" aria-label="Fullscreen">
-          ${this.getFullscreenIcon()}
-        </button>
-      </div>
+      .wontum-resume-overlay {
+        position: absolute;
+        inset: 0;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        gap: 12px;
+        background: rgba(0, 0, 0, 0.6);
+        z-index: 20;
+      }
       
-      <div class="wontum-loading" style="display: none;">
-        <div class="wontum-spinner"></div>
-      </div>
-    `
-
-		return controls
+      .wontum-resume-btn {
+        background: rgba(20, 20, 20, 0.95);
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        color: white;
+        font-family: inherit;
+        font-size: 14px;
+        padding: 10px 18px;
+        border-radius: var(--border-radius);
+        cursor: pointer;
+        transition: all 0.2s ease;
+      }
+      
+      .wontum-resume-btn:hover {
+        background: rgba(255, 255, 255, 0.15);
+      }
+      
+      .wontum-resume-btn.primary {
+        background: var(--primary-color);
+        border-color: var(--primary-color);
+      }
+      
+      .wontum-error-overlay {
+        position: absolute;
+        inset: 0;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        gap: 10px;
+        background: rgba(0, 0, 0, 0.85);
+        color: white;
+        text-align: center;
+        padding: 20px;
+        z-index: 25;
+      }
+      
+      .wontum-error-message {
+        font-size: 15px;
+        max-width: 80%;
+      }
+      
+      .wontum-error-code {
+        font-size: 11px;
+        opacity: 0.6;
+        font-family: monospace;
+      }
+      
+      .wontum-stats-overlay {
+        position: absolute;
+        top: 12px;
+        left: 12px;
+        min-width: 260px;
+        padding: 10px 12px;
+        background: rgba(0, 0, 0, 0.75);
+        color: white;
+        font-family: monospace;
+        font-size: 11px;
+        line-height: 1.6;
+        border-radius: 4px;
+        z-index: 20;
+      }
+      
+      .wontum-stats-row {
+        display: flex;
+        justify-content: space-between;
+        gap: 16px;
+      }
+      
+      .wontum-stats-label {
+        opacity: 0.7;
+      }
+      
+      .wontum-stats-close {
+        position: absolute;
+        top: 4px;
+        right: 6px;
+        background: none;
+        border: none;
+        color: white;
+        cursor: pointer;
+        font-size: 14px;
+        opacity: 0.7;
+      }
+      
+      .wontum-player-container:focus-visible {
+        outline: 2px solid var(--primary-color);
+        outline-offset: -2px;
+      }
+      
+      .wontum-progress-checkpoints {
+        position: absolute;
+        inset: 0;
+        pointer-events: none;
+      }
+      
+      .wontum-progress-checkpoint {
+        position: absolute;
+        top: -2px;
+        bottom: -2px;
+        width: 4px;
+        margin-left: -2px;
+        background: #ffd54f;
+        border-radius: 1px;
+      }
+      
+      .wontum-progress-checkpoint.resolved {
+        opacity: 0.4;
+      }
+      
+      .wontum-checkpoint-overlay {
+        position: absolute;
+        inset: 0;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background: rgba(0, 0, 0, 0.75);
+        z-index: 22;
+      }
+      
+      .wontum-checkpoint-panel {
+        width: min(480px, 90%);
+        max-height: 90%;
+        overflow-y: auto;
+        padding: 20px;
+        background: rgba(20, 20, 20, 0.95);
+        color: white;
+        border-radius: var(--border-radius);
+      }
+      
+      .wontum-checkpoint-question {
+        font-size: 16px;
+        font-weight: 600;
+        margin-bottom: 14px;
+      }
+      
+      .wontum-checkpoint-answers {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+      
+      .wontum-checkpoint-option {
+        background: rgba(255, 255, 255, 0.08);
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        color: white;
+        font-family: inherit;
+        font-size: 14px;
+        text-align: left;
+        padding: 10px 14px;
+        border-radius: var(--border-radius);
+        cursor: pointer;
+      }
+      
+      .wontum-checkpoint-option:hover:not(:disabled) {
+        background: rgba(255, 255, 255, 0.15);
+      }
+      
+      .wontum-checkpoint-option.correct {
+        border-color: #4caf50;
+        background: rgba(76, 175, 80, 0.25);
+      }
+      
+      .wontum-checkpoint-option.incorrect {
+        border-color: #f44336;
+        background: rgba(244, 67, 54, 0.25);
+      }
+      
+      .wontum-checkpoint-form {
+        display: flex;
+        gap: 8px;
+      }
+      
+      .wontum-checkpoint-input {
+        flex: 1;
+        background: rgba(255, 255, 255, 0.08);
+        border: 1px solid rgba(255, 255, 255, 0.2);
+        color: white;
+        font-family: inherit;
+        font-size: 14px;
+        padding: 10px;
+        border-radius: var(--border-radius);
+      }
+      
+      .wontum-checkpoint-feedback {
+        margin-top: 12px;
+        font-size: 14px;
+      }
+      
+      .wontum-checkpoint-feedback.correct {
+        color: #81c784;
+      }
+      
+      .wontum-checkpoint-feedback.incorrect {
+        color: #e57373;
+      }
+      
+      .wontum-checkpoint-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 12px;
+        margin-top: 14px;
+      }
+      
+      .wontum-tap-ripple {
+        position: absolute;
+        top: 0;
+        bottom: 0;
+        width: 40%;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background: rgba(255, 255, 255, 0.15);
+        color: white;
+        font-size: 16px;
+        font-weight: 600;
+        pointer-events: none;
+        z-index: 9;
+        animation: wontum-tap-ripple 0.7s ease-out forwards;
+      }
+      
+      .wontum-tap-ripple.left {
+        left: 0;
+        border-radius: 0 50% 50% 0;
+      }
+      
+      .wontum-tap-ripple.right {
+        right: 0;
+        border-radius: 50% 0 0 50%;
+      }
+      
+      @keyframes wontum-tap-ripple {
+        0% { opacity: 0; }
+        20% { opacity: 1; }
+        100% { opacity: 0; }
+      }
+      
+      .wontum-gesture-indicator {
+        position: absolute;
+        top: 16px;
+        left: 50%;
+        transform: translateX(-50%);
+        padding: 6px 14px;
+        background: rgba(0, 0, 0, 0.75);
+        color: white;
+        font-size: 13px;
+        font-variant-numeric: tabular-nums;
+        border-radius: var(--border-radius);
+        pointer-events: none;
+        z-index: 20;
+      }
+      
+      /* Touch devices: larger targets, hardware keys for volume */
+      @media (pointer: coarse) {
+        .wontum-btn {
+          min-width: 44px;
+          min-height: 44px;
+        }
+        
+        .wontum-btn:hover {
+          background: none;
+          transform: none;
+        }
+        
+        .wontum-volume-slider-wrapper {
+          display: none;
+        }
+        
+        .wontum-progress-container {
+          width: calc(100% - 32px);
+          max-width: none;
+          height: 8px;
+        }
+        
+        .wontum-time-display {
+          min-width: 0;
+          font-size: 12px;
+        }
+      }
+      
+      .wontum-shortcuts-overlay {
+        position: absolute;
+        inset: 0;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background: rgba(0, 0, 0, 0.6);
+        z-index: 25;
+      }
+      
+      .wontum-shortcuts-panel {
+        position: relative;
+        min-width: 280px;
+        max-height: 80%;
+        overflow-y: auto;
+        padding: 16px 20px;
+        background: rgba(20, 20, 20, 0.95);
+        color: white;
+        font-size: 13px;
+        border-radius: var(--border-radius);
+      }
+      
+      .wontum-shortcuts-title {
+        font-size: 15px;
+        font-weight: 600;
+        margin-bottom: 10px;
+      }
+      
+      .wontum-shortcuts-row {
+        display: flex;
+        justify-content: space-between;
+        gap: 24px;
+        line-height: 2;
+      }
+      
+      .wontum-shortcuts-row kbd {
+        display: inline-block;
+        min-width: 20px;
+        margin-left: 4px;
+        padding: 0 6px;
+        background: rgba(255, 255, 255, 0.15);
+        border-radius: 3px;
+        font-family: inherit;
+        text-align: center;
+        line-height: 1.6;
+      }
+      
+      .wontum-shortcuts-close {
+        position: absolute;
+        top: 8px;
+        right: 10px;
+        background: none;
+        border: none;
+        color: white;
+        cursor: pointer;
+        font-size: 16px;
+        opacity: 0.7;
+      }
+      
+      .wontum-upnext-overlay {
+        position: absolute;
+        inset: 0;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        gap: 8px;
+        background: rgba(0, 0, 0, 0.75);
+        color: white;
+        z-index: 20;
+      }
+      
+      .wontum-upnext-label {
+        font-size: 13px;
+        text-transform: uppercase;
+        letter-spacing: 1px;
+        opacity: 0.7;
+      }
+      
+      .wontum-upnext-title {
+        font-size: 18px;
+        font-weight: 600;
+        max-width: 80%;
+        text-align: center;
+      }
+      
+      .wontum-upnext-countdown {
+        font-size: 13px;
+        opacity: 0.85;
+        font-variant-numeric: tabular-nums;
+      }
+      
+      .wontum-upnext-actions {
+        display: flex;
+        gap: 12px;
+        margin-top: 8px;
+      }
+    `
+
+		document.head.appendChild(style)
+	}
+
+	private createProgressBar(): void {
+		const progressContainer = document.createElement("div")
+		progressContainer.className = "wontum-progress-container"
+		progressContainer.innerHTML = `
+      <div class="wontum-progress-track"></div>
+      <div class="wontum-progress-filled"></div>
+      <div class="wontum-progress-segments"></div>
+      <div class="wontum-progress-loop"></div>
+      <div class="wontum-progress-checkpoints"></div>
+      <div class="wontum-progress-tooltip"></div>
+      <input type="range" class="wontum-progress-input" min="0" max="100" value="0" step="0.1">
+    `
+		this.container.appendChild(progressContainer)
+		this.progressContainer = progressContainer
+		this.progressSegments = progressContainer.querySelector(".wontum-progress-segments")!
+		this.progressTooltip = progressContainer.querySelector(".wontum-progress-tooltip")!
+		this.loopRegion = progressContainer.querySelector(".wontum-progress-loop")!
+		this.checkpointMarkers = progressContainer.querySelector(".wontum-progress-checkpoints")!
+	}
+
+	private createControls(): HTMLElement {
+		const controls = document.createElement("div")
+		controls.className = "wontum-controls"
+		controls.innerHTML = `
+      <div class="wontum-center-controls">
+        <button class="wontum-center-btn skip wontum-skip-backward-btn" aria-label="Skip backward 10s">
+          ${this.getSkipBackwardIcon()}
+        </button>
+        
+        <button class="wontum-center-btn play wontum-play-btn" aria-label="Play">
+          ${this.getPlayIcon()}
+        </button>
+        
+        <button class="wontum-center-btn skip wontum-skip-forward-btn" aria-label="Skip forward 10s">
+          ${this.getSkipForwardIcon()}
+        </button>
+      </div>
+      
+      <div class="wontum-controls-row">
+        
+        <div class="wontum-volume-container">
+          <button class="wontum-btn wontum-volume-btn" aria-label="Mute">
+            ${this.getVolumeIcon()}
+          </button>
+          <div class="wontum-volume-slider-wrapper">
+            <input type="range" class="wontum-volume-slider" min="0" max="100" value="100" step="1" orient="vertical">
+          </div>
+        </div>
+        
+        <div class="wontum-time-display">
+          <span class="wontum-current-time">0:00</span> / <span class="wontum-duration">0:00</span>
+        </div>
+
+        <button class="wontum-btn wontum-live-btn" aria-label="Go live" style="display: none;">
+          <span class="wontum-live-dot"></span>LIVE
+        </button>
+        
+        <div class="wontum-slot-controls-left"></div>
+        
+        <div class="wontum-spacer"></div>
+        
+        <div class="wontum-slot-controls-right"></div>
+        
+        <button class="wontum-btn wontum-loop-btn" aria-label="Set loop start (A)">A-B</button>
+        
+        <div class="wontum-settings-container" style="position: relative;">
+          <button class="wontum-btn wontum-settings-btn" aria-label="Settings">
+            ${this.getSettingsIcon()}
+          </button>
+          <div class="wontum-settings-panel">
+            <div class="wontum-settings-tabs">
+              <button class="wontum-tab active" data-tab="general">General</button>
+              <button class="wontum-tab" data-tab="quality">Quality</button>
+              <button class="wontum-tab" data-tab="audio" style="display: none;">Audio</button>
+              <button class="wontum-tab" data-tab="speed">Speed</button>
+              <button class="wontum-tab" data-tab="subtitles">Subtitles</button>
+              <button class="wontum-tab" data-tab="chapters">Chapters</button>
+            </div>
+            <div class="wontum-settings-content">
+              <div class="wontum-tab-panel active" data-panel="general">
+                <div class="wontum-settings-menu"></div>
+              </div>
+              <div class="wontum-tab-panel" data-panel="quality">
+                <div class="wontum-quality-menu"></div>
+              </div>
+              <div class="wontum-tab-panel" data-panel="audio">
+                <div class="wontum-audio-menu"></div>
+              </div>
+              <div class="wontum-tab-panel" data-panel="speed">
+                <div class="wontum-speed-menu"></div>
+              </div>
+              <div class="wontum-tab-panel" data-panel="subtitles">
+                <div class="wontum-subtitle-menu"></div>
+              </div>
+              <div class="wontum-tab-panel" data-panel="chapters">
+                <div class="wontum-chapter-menu"></div>
+              </div>
+            </div>
+          </div>
+        </div>
+        
+        <button class="wontum-btn wontum-pip-btn" aria-label="Picture-in-Picture">
+          ${this.getPipIcon()}
+        </button>
+        
+        <button class="wontum-btn wontum-fullscreen-btn" aria-label="Fullscreen">
+          ${this.getFullscreenIcon()}
+        </button>
+      </div>
+      
+      <div class="wontum-loading" style="display: none;">
+        <div class="wontum-spinner"></div>
+      </div>
+    `
+
+		return controls
 	}
 
 	private setupEventListeners(): void {
@@ -698,9 +1511,60 @@ export class UIController {
 		this.progressInput.addEventListener("input", (e) => {
 			const target = e.target as HTMLInputElement
 			const percent = parseFloat(target.value)
-			const state = this.player.getState()
-			const time = (percent / 100) * state.duration
+			const timeline = this.getTimeline()
+			if (!timeline) return
+			const time = timeline.start + (percent / 100) * (timeline.end - timeline.start)
 			this.player.seek(time)
+
+			// Preview while dragging (touch drags never fire mousemove)
+			this.showProgressTooltip(percent / 100)
+		})
+
+		this.progressInput.addEventListener("change", () => {
+			this.progressTooltip.classList.remove("visible")
+		})
+
+		// A-B loop: first click sets A, second sets B, third clears
+		this.loopButton.addEventListener("click", () => {
+			if (this.player.getLoopRange()) {
+				this.player.clearLoop()
+			} else {
+				this.markLoopPoint(this.player.getState().currentTime)
+			}
+		})
+
+		// Shift-click on the progress bar marks A or B at that point instead of seeking
+		this.progressContainer.addEventListener(
+			"mousedown",
+			(e) => {
+				if (!e.shiftKey || e.button !== 0) return
+				const timeline = this.getTimeline()
+				if (!timeline) return
+
+				// Keep the range input from seeking
+				e.preventDefault()
+				e.stopPropagation()
+				const rect = this.progressContainer.getBoundingClientRect()
+				const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1)
+				// A new loop replaces the current one
+				if (this.player.getLoopRange()) this.player.clearLoop()
+				this.markLoopPoint(timeline.start + ratio * (timeline.end - timeline.start))
+			},
+			true,
+		)
+
+		// Go Live
+		this.liveButton.addEventListener("click", () => {
+			this.player.goLive()
+		})
+
+		// Progress bar hover tooltip (time and chapter title)
+		this.progressContainer.addEventListener("mousemove", (e) => {
+			this.updateProgressTooltip(e.clientX)
+		})
+
+		this.progressContainer.addEventListener("mouseleave", () => {
+			this.progressTooltip.classList.remove("visible")
 		})
 
 		// Volume
@@ -740,14 +1604,9 @@ export class UIController {
 			}, 500)
 		})
 
-		// Fullscreen
+		// Fullscreen (failures are logged by the player)
 		this.fullscreenButton.addEventListener("click", () => {
-			const state = this.player.getState()
-			if (state.fullscreen) {
-				this.player.exitFullscreen()
-			} else {
-				this.player.enterFullscreen()
-			}
+			this.player.toggleFullscreen().catch(() => {})
 		})
 
 		// Picture-in-Picture
@@ -767,8 +1626,10 @@ export class UIController {
 			if (panel.classList.contains("active")) {
 				this.updateSettingsMenu()
 				this.updateQualityMenu()
+				this.updateAudioMenu()
 				this.updateSpeedMenu()
 				this.updateSubtitleMenu()
+				this.updateChapterMenu()
 			}
 		})
 
@@ -814,6 +1675,13 @@ export class UIController {
 	}
 
 	private setupPlayerEventListeners(): void {
+		this.player.on("fullscreenchange", (event) => {
+			const { fullscreen } = event.data
+			this.fullscreenButton.innerHTML = fullscreen ? this.getExitFullscreenIcon() : this.getFullscreenIcon()
+			this.fullscreenButton.setAttribute("aria-label", fullscreen ? "Exit fullscreen" : "Fullscreen")
+			this.updateOrientationLock(fullscreen)
+		})
+
 		this.player.on("play", () => {
 			this.playButton.innerHTML = this.getPauseIcon()
 		})
@@ -822,29 +1690,79 @@ export class UIController {
 			this.playButton.innerHTML = this.getPlayIcon()
 		})
 
+		// Playback started some other way - the viewer has made their choice
+		this.player.on("play", () => {
+			this.hideResumePrompt()
+			this.hideUpNext()
+		})
+
+		this.player.on("sourcechange", () => {
+			this.hideResumePrompt()
+			this.hideError()
+			this.loopStart = null
+			this.renderLoopRange()
+		})
+
+		this.player.on("playing", () => {
+			this.hideError()
+		})
+
 		this.player.on("timeupdate", (event) => {
 			const { currentTime } = event.data
-			const state = this.player.getState()
+			const timeline = this.getTimeline()
 
-			if (state.duration > 0) {
-				const percent = (currentTime / state.duration) * 100
+			if (timeline) {
+				const percent = Math.min(Math.max((currentTime - timeline.start) / (timeline.end - timeline.start), 0), 1) * 100
 				this.progressBar.style.width = `${percent}%`
 				this.progressInput.value = percent.toString()
+				this.updateChapterSegments(currentTime)
 			}
 
+			// Clips count from their own start
 			const currentEl = this.controlsContainer.querySelector(".wontum-current-time")!
-			currentEl.textContent = this.formatTime(currentTime)
+			currentEl.textContent = this.formatTime(currentTime - (this.player.getClipRange()?.start ?? 0))
 		})
 
 		this.player.on("loadedmetadata", (event) => {
 			const { duration } = event.data
+			const clip = this.player.getClipRange()
 			const durationEl = this.controlsContainer.querySelector(".wontum-duration")!
-			durationEl.textContent = this.formatTime(duration)
+			durationEl.textContent = this.formatTime(clip ? clip.end - clip.start : duration)
 
-			// Update quality menu
-			if (event.data.qualities) {
-				this.updateQualityMenu(event.data.qualities)
-			}
+			// Chapter segments, the loop and checkpoint markers need the duration to be laid out
+			this.renderChapters()
+			this.renderLoopRange()
+			this.renderCheckpoints()
+
+			// Qualities and audio tracks are known once the manifest has been parsed
+			this.updateQualityMenu()
+			this.updateAudioMenu()
+		})
+
+		this.player.on("loopchange", () => {
+			this.loopStart = null
+			this.renderLoopRange()
+		})
+
+		this.player.on("qualitychange", () => {
+			this.updateQualityMenu()
+		})
+
+		this.player.on("audiotrackchange", () => {
+			this.updateAudioMenu()
+		})
+
+		this.player.on("livechange", (event) => {
+			const { live } = event.data
+			const dvr = this.player.getConfig().live?.dvr ?? true
+			this.container.classList.toggle("wontum-live", live)
+			this.container.classList.toggle("wontum-live-no-dvr", live && !dvr)
+			this.liveButton.style.display = live ? "" : "none"
+			this.liveButton.classList.toggle("at-edge", live)
+		})
+
+		this.player.on("liveedgechange", (event) => {
+			this.liveButton.classList.toggle("at-edge", event.data.atLiveEdge)
 		})
 
 		this.player.on("volumechange", (event) => {
@@ -864,6 +1782,197 @@ export class UIController {
 		})
 	}
 
+	/**
+	 * Split the progress bar into one segment per chapter
+	 */
+	public renderChapters(): void {
+		const chapters = this.player.getChapters()
+		const timeline = this.getTimeline()
+		this.progressSegments.innerHTML = ""
+
+		if (chapters.length === 0 || !timeline || this.player.isLive()) {
+			this.progressContainer.classList.remove("segmented")
+			return
+		}
+
+		// Gap between segments, in percent of the bar
+		const gap = 0.4
+		chapters.forEach((chapter) => {
+			const start = this.getTimelinePercent(chapter.startTime, timeline)
+			const end = this.getTimelinePercent(chapter.endTime!, timeline)
+			const segment = document.createElement("div")
+			segment.className = "wontum-progress-segment"
+			segment.style.left = `${start}%`
+			segment.style.width = `${Math.max(end - start - gap, 0)}%`
+			segment.innerHTML = `<div class="wontum-progress-segment-fill"></div>`
+			this.progressSegments.appendChild(segment)
+		})
+
+		this.progressContainer.classList.add("segmented")
+		this.updateChapterSegments(this.player.getState().currentTime)
+	}
+
+	private updateChapterSegments(currentTime: number): void {
+		const fills = this.progressSegments.querySelectorAll<HTMLElement>(".wontum-progress-segment-fill")
+		if (fills.length === 0) return
+
+		this.player.getChapters().forEach((chapter, i) => {
+			const length = chapter.endTime! - chapter.startTime
+			const progress = length > 0 ? (currentTime - chapter.startTime) / length : 0
+			if (fills[i]) {
+				fills[i].style.width = `${Math.min(Math.max(progress, 0), 1) * 100}%`
+			}
+		})
+	}
+
+	/**
+	 * Time range the progress bar spans: the whole video, or the DVR window for live streams
+	 */
+	private getTimeline(): TimeRange | null {
+		if (this.player.isLive()) {
+			const range = this.player.getSeekableRange()
+			return range && range.end > range.start ? range : null
+		}
+
+		const duration = this.player.getState().duration
+		return this.player.getClipRange() ?? (duration > 0 ? { start: 0, end: duration } : null)
+	}
+
+	private getTimelinePercent(time: number, timeline: TimeRange): number {
+		return Math.min(Math.max((time - timeline.start) / (timeline.end - timeline.start), 0), 1) * 100
+	}
+
+	/**
+	 * Set the loop start (A), or the end (B) once A is set
+	 */
+	private markLoopPoint(time: number): void {
+		if (this.loopStart === null) {
+			this.loopStart = time
+			this.renderLoopRange()
+		} else if (time > this.loopStart) {
+			this.player.setLoopRange(this.loopStart, time)
+		} else {
+			// B before A - swap so the loop is still what the viewer marked
+			this.player.setLoopRange(time, this.loopStart)
+		}
+	}
+
+	/**
+	 * Highlight the A-B loop (or the pending A point) on the progress bar
+	 */
+	private renderLoopRange(): void {
+		const range = this.player.getLoopRange()
+		const timeline = this.getTimeline()
+		const start = range?.start ?? this.loopStart
+
+		this.loopButton.classList.toggle("active", !!range)
+		this.loopButton.classList.toggle("pending", !range && this.loopStart !== null)
+		this.loopButton.setAttribute("aria-label", range ? "Clear loop" : this.loopStart !== null ? "Set loop end (B)" : "Set loop start (A)")
+
+		if (start === null || !timeline) {
+			this.loopRegion.style.display = "none"
+			return
+		}
+
+		const left = this.getTimelinePercent(start, timeline)
+		this.loopRegion.style.display = "block"
+		this.loopRegion.style.left = `${left}%`
+		this.loopRegion.classList.toggle("pending", !range)
+		this.loopRegion.style.width = range ? `${this.getTimelinePercent(range.end, timeline) - left}%` : ""
+	}
+
+	/**
+	 * Mark checkpoints on the progress bar - answered ones are dimmed
+	 */
+	public renderCheckpoints(): void {
+		const timeline = this.getTimeline()
+		this.checkpointMarkers.innerHTML = ""
+		if (!timeline || this.player.isLive()) return
+
+		this.player.getCheckpoints().forEach((checkpoint) => {
+			if (checkpoint.time < timeline.start || checkpoint.time > timeline.end) return
+			const marker = document.createElement("div")
+			marker.className = "wontum-progress-checkpoint"
+			marker.classList.toggle("resolved", this.player.isCheckpointResolved(checkpoint.id))
+			marker.style.left = `${this.getTimelinePercent(checkpoint.time, timeline)}%`
+			this.checkpointMarkers.appendChild(marker)
+		})
+	}
+
+	private updateProgressTooltip(clientX: number): void {
+		const rect = this.progressContainer.getBoundingClientRect()
+		this.showProgressTooltip((clientX - rect.left) / rect.width)
+	}
+
+	/**
+	 * Show the thumbnail, chapter title and time at a position (0-1) along the progress bar
+	 */
+	private showProgressTooltip(position: number): void {
+		const timeline = this.getTimeline()
+		if (!timeline) return
+
+		const ratio = Math.min(Math.max(position, 0), 1)
+		const time = timeline.start + ratio * (timeline.end - timeline.start)
+		const chapter = this.player.getChapters().find((c) => time >= c.startTime && time < c.endTime!)
+		const thumbnail = this.player.getThumbnail(time)
+
+		this.progressTooltip.innerHTML = ""
+		if (thumbnail) {
+			const image = document.createElement("div")
+			image.className = "wontum-progress-tooltip-thumbnail"
+			image.style.backgroundImage = `url("${thumbnail.url.replace(/"/g, "%22")}")`
+			if (thumbnail.width && thumbnail.height) {
+				// Sprite region
+				image.style.width = `${thumbnail.width}px`
+				image.style.height = `${thumbnail.height}px`
+				image.style.backgroundPosition = `-${thumbnail.x}px -${thumbnail.y}px`
+			} else {
+				image.classList.add("full")
+			}
+			this.progressTooltip.appendChild(image)
+		}
+		if (chapter) {
+			const title = document.createElement("div")
+			title.className = "wontum-progress-tooltip-title"
+			title.textContent = chapter.title
+			this.progressTooltip.appendChild(title)
+		}
+		const timeEl = document.createElement("div")
+		// Live streams show the distance from the live edge
+		timeEl.textContent = this.player.isLive() ? `-${this.formatTime(timeline.end - time)}` : this.formatTime(time)
+		this.progressTooltip.appendChild(timeEl)
+
+		this.progressTooltip.style.left = `${ratio * 100}%`
+		this.progressTooltip.classList.add("visible")
+	}
+
+	private updateChapterMenu(): void {
+		const menu = this.controlsContainer.querySelector(".wontum-chapter-menu")!
+		const chapters = this.player.getChapters()
+
+		if (chapters.length === 0) {
+			menu.innerHTML = `<div class="wontum-chapter-option">No chapters available</div>`
+			return
+		}
+
+		const current = this.player.getCurrentChapter()
+		menu.innerHTML = ""
+		chapters.forEach((chapter) => {
+			const option = document.createElement("div")
+			option.className = `wontum-chapter-option ${current && current.startTime === chapter.startTime ? "active" : ""}`
+			option.innerHTML = `<span class="wontum-chapter-title"></span><span class="wontum-chapter-time">${this.formatTime(chapter.startTime)}</span>`
+			option.querySelector(".wontum-chapter-title")!.textContent = chapter.title
+
+			option.addEventListener("click", () => {
+				this.player.seek(chapter.startTime)
+				menu.querySelectorAll(".wontum-chapter-option").forEach((opt) => opt.classList.remove("active"))
+				option.classList.add("active")
+			})
+
+			menu.appendChild(option)
+		})
+	}
+
 	private updateSubtitleMenu(): void {
 		const menu = this.controlsContainer.querySelector(".wontum-subtitle-menu")!
 		const tracks = this.player.getSubtitleTracks()
@@ -875,18 +1984,15 @@ export class UIController {
 
 		const activeTrack = tracks.findIndex((track) => track.mode === "showing")
 
-		menu.innerHTML = `
-      <div class="wontum-subtitle-option ${activeTrack === -1 ? "active" : ""}" data-track="-1">Off</div>
-      ${tracks
-				.map(
-					(track, i) => `
-        <div class="wontum-subtitle-option ${i === activeTrack ? "active" : ""}" data-track="${i}">
-          ${track.label || track.language || `Track ${i + 1}`}
-        </div>
-      `,
-				)
-				.join("")}
-    `
+		menu.innerHTML = `<div class="wontum-subtitle-option ${activeTrack === -1 ? "active" : ""}" data-track="-1">Off</div>`
+		tracks.forEach((track) => {
+			const option = document.createElement("div")
+			option.className = `wontum-subtitle-option ${track.index === activeTrack ? "active" : ""}`
+			option.dataset.track = track.index.toString()
+			// Labels can come from the manifest
+			option.textContent = track.language && track.label !== track.language ? `${track.label} (${track.language})` : track.label
+			menu.appendChild(option)
+		})
 
 		menu.querySelectorAll(".wontum-subtitle-option").forEach((option) => {
 			option.addEventListener("click", (e) => {
@@ -905,14 +2011,38 @@ export class UIController {
 		})
 	}
 
+	private updateAudioMenu(): void {
+		const menu = this.controlsContainer.querySelector(".wontum-audio-menu")!
+		const tracks = this.player.getAudioTracks()
+		const activeTrack = this.player.getAudioTrack()
+
+		// Only worth a tab when there is something to switch between
+		const audioTab = this.controlsContainer.querySelector('[data-tab="audio"]') as HTMLElement
+		audioTab.style.display = tracks.length > 1 ? "" : "none"
+
+		menu.innerHTML = ""
+		tracks.forEach((track) => {
+			const option = document.createElement("div")
+			option.className = `wontum-audio-option ${track.id === activeTrack ? "active" : ""}`
+			// Track names come from the manifest
+			option.textContent = track.language && track.name !== track.language ? `${track.name} (${track.language})` : track.name
+
+			option.addEventListener("click", () => {
+				this.player.setAudioTrack(track.id)
+				menu.querySelectorAll(".wontum-audio-option").forEach((opt) => opt.classList.remove("active"))
+				option.classList.add("active")
+			})
+
+			menu.appendChild(option)
+		})
+	}
+
 	private updateSpeedMenu(): void {
 		const menu = this.controlsContainer.querySelector(".wontum-speed-menu")!
 		const state = this.player.getState()
 		const currentRate = state.playbackRate || 1
 
-		const speeds = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2]
-
-		menu.innerHTML = speeds
+		menu.innerHTML = PLAYBACK_SPEEDS
 			.map(
 				(speed) => `
         <div class="wontum-speed-option ${currentRate === speed ? "active" : ""}" data-speed="${speed}">
@@ -942,8 +2072,24 @@ export class UIController {
         <span>Sticky Controls</span>
         <div class="wontum-toggle-switch ${this.stickyControls ? "active" : ""}"></div>
       </div>
+      <div class="wontum-settings-option" data-setting="stats">
+        <span>Stats for nerds</span>
+        <div class="wontum-toggle-switch ${this.statsOverlay ? "active" : ""}"></div>
+      </div>
+      ${this.keyboard.isEnabled() ? `<div class="wontum-settings-option" data-setting="shortcuts"><span>Keyboard shortcuts</span></div>` : ""}
     `
 
+		menu.querySelector('[data-setting="shortcuts"]')?.addEventListener("click", () => {
+			this.controlsContainer.querySelector(".wontum-settings-panel")!.classList.remove("active")
+			this.toggleShortcutsHelp(true)
+		})
+
+		const statsOption = menu.querySelector('[data-setting="stats"]')!
+		statsOption.addEventListener("click", () => {
+			this.toggleStatsOverlay()
+			statsOption.querySelector(".wontum-toggle-switch")!.classList.toggle("active", !!this.statsOverlay)
+		})
+
 		const stickyOption = menu.querySelector('[data-setting="sticky-controls"]')!
 		stickyOption.addEventListener("click", () => {
 			this.stickyControls = !this.stickyControls
@@ -967,18 +2113,27 @@ export class UIController {
 		// If no qualities provided, get from player
 		const qualityList = qualities || this.player.getQualities()
 
+		// Progressive sources (MP4/WebM) have no quality levels to choose from
+		const qualityTab = this.controlsContainer.querySelector('[data-tab="quality"]') as HTMLElement
+		qualityTab.style.display = this.player.getSourceType() === "progressive" ? "none" : ""
+
 		// If still no qualities available, show message
 		if (!qualityList || qualityList.length === 0) {
 			menu.innerHTML = '<div class="wontum-quality-option">No qualities available</div>'
 			return
 		}
 
+		// "Auto (720p)" shows the level automatic selection is currently playing
+		const selected = this.player.getSelectedQuality()
+		const playing = this.player.getState().quality
+		const autoLabel = selected === -1 && playing !== "auto" ? `Auto (${playing})` : "Auto"
+
 		menu.innerHTML = `
-      <div class="wontum-quality-option active" data-quality="-1">Auto</div>
+      <div class="wontum-quality-option ${selected === -1 ? "active" : ""}" data-quality="-1">${autoLabel}</div>
       ${qualityList
 				.map(
 					(q, i) => `
-        <div class="wontum-quality-option" data-quality="${i}">${q.name}</div>
+        <div class="wontum-quality-option ${i === selected ? "active" : ""}" data-quality="${i}">${q.name}</div>
       `,
 				)
 				.join("")}
@@ -996,6 +2151,457 @@ export class UIController {
 		})
 	}
 
+	/**
+	 * Show the "Resume from 12:30 / Start over" prompt
+	 */
+	public showResumePrompt(position: number, onResume: () => void, onStartOver: () => void): void {
+		this.hideResumePrompt()
+
+		const overlay = document.createElement("div")
+		overlay.className = "wontum-resume-overlay"
+		overlay.innerHTML = `
+      <button class="wontum-resume-btn primary" data-action="resume">Resume from ${this.formatTime(position)}</button>
+      <button class="wontum-resume-btn" data-action="start-over">Start over</button>
+    `
+
+		overlay.querySelector('[data-action="resume"]')!.addEventListener("click", () => {
+			this.hideResumePrompt()
+			onResume()
+			this.player.play().catch((error) => console.warn("WontumPlayer: Playback failed to start:", error))
+		})
+
+		overlay.querySelector('[data-action="start-over"]')!.addEventListener("click", () => {
+			this.hideResumePrompt()
+			onStartOver()
+			this.player.play().catch((error) => console.warn("WontumPlayer: Playback failed to start:", error))
+		})
+
+		this.container.appendChild(overlay)
+		this.resumeOverlay = overlay
+	}
+
+	public hideResumePrompt(): void {
+		if (this.resumeOverlay) {
+			this.resumeOverlay.remove()
+			this.resumeOverlay = null
+		}
+	}
+
+	/**
+	 * Show the end screen with a cancellable "Up next in 5s" countdown
+	 */
+	public showUpNext(item: PlaylistItem, seconds: number, onPlayNext: () => void): void {
+		this.hideUpNext()
+
+		let remaining = Math.ceil(seconds)
+		const overlay = document.createElement("div")
+		overlay.className = "wontum-upnext-overlay"
+		overlay.innerHTML = `
+      <div class="wontum-upnext-label">Up next</div>
+      <div class="wontum-upnext-title"></div>
+      <div class="wontum-upnext-countdown">Playing in ${remaining}s</div>
+      <div class="wontum-upnext-actions">
+        <button class="wontum-resume-btn primary" data-action="play-next">Play now</button>
+        <button class="wontum-resume-btn" data-action="cancel">Cancel</button>
+      </div>
+    `
+		// Title is user content - set as text, not markup
+		overlay.querySelector(".wontum-upnext-title")!.textContent = item.title || ""
+
+		const countdownEl = overlay.querySelector(".wontum-upnext-countdown")!
+
+		overlay.querySelector('[data-action="play-next"]')!.addEventListener("click", () => {
+			this.hideUpNext()
+			onPlayNext()
+		})
+
+		overlay.querySelector('[data-action="cancel"]')!.addEventListener("click", () => {
+			this.hideUpNext()
+		})
+
+		this.upNextInterval = window.setInterval(() => {
+			remaining--
+			if (remaining <= 0) {
+				this.hideUpNext()
+				onPlayNext()
+				return
+			}
+			countdownEl.textContent = `Playing in ${remaining}s`
+		}, 1000)
+
+		this.container.appendChild(overlay)
+		this.upNextOverlay = overlay
+	}
+
+	public hideUpNext(): void {
+		if (this.upNextInterval) {
+			clearInterval(this.upNextInterval)
+			this.upNextInterval = null
+		}
+
+		if (this.upNextOverlay) {
+			this.upNextOverlay.remove()
+			this.upNextOverlay = null
+		}
+	}
+
+	/**
+	 * Show the error overlay, with a retry button when a retry callback is given
+	 */
+	public showError(error: WontumError, onRetry?: () => void): void {
+		this.hideError()
+
+		const overlay = document.createElement("div")
+		overlay.className = "wontum-error-overlay"
+		overlay.innerHTML = `
+      <div class="wontum-error-message"></div>
+      <div class="wontum-error-code"></div>
+    `
+		overlay.querySelector(".wontum-error-message")!.textContent = error.message
+		overlay.querySelector(".wontum-error-code")!.textContent = error.httpStatus ? `${error.code} (HTTP ${error.httpStatus})` : error.code
+
+		if (onRetry) {
+			const retryButton = document.createElement("button")
+			retryButton.className = "wontum-resume-btn primary"
+			retryButton.textContent = "Retry"
+			retryButton.addEventListener("click", () => {
+				this.hideError()
+				onRetry()
+			})
+			overlay.appendChild(retryButton)
+		}
+
+		// Loading spinner would otherwise keep spinning behind the overlay
+		const loading = this.controlsContainer.querySelector(".wontum-loading") as HTMLElement
+		loading.style.display = "none"
+
+		this.container.appendChild(overlay)
+		this.errorOverlay = overlay
+	}
+
+	public hideError(): void {
+		if (this.errorOverlay) {
+			this.errorOverlay.remove()
+			this.errorOverlay = null
+		}
+	}
+
+	/**
+	 * Show a checkpoint question. Graded answers get feedback and a Continue button; ungraded ones continue straight away.
+	 */
+	public showCheckpoint(checkpoint: Checkpoint, onAnswer: (answer: number | string) => boolean | null, onSkip: () => void, onContinue: () => void): void {
+		this.hideCheckpoint()
+
+		const overlay = document.createElement("div")
+		overlay.className = "wontum-checkpoint-overlay"
+		overlay.innerHTML = `
+      <div class="wontum-checkpoint-panel" role="dialog" aria-modal="true">
+        <div class="wontum-checkpoint-question"></div>
+        <div class="wontum-checkpoint-answers"></div>
+        <div class="wontum-checkpoint-feedback" aria-live="polite"></div>
+        <div class="wontum-checkpoint-actions"></div>
+      </div>
+    `
+		overlay.querySelector(".wontum-checkpoint-question")!.textContent = checkpoint.question
+		const answers = overlay.querySelector(".wontum-checkpoint-answers")!
+		const feedback = overlay.querySelector(".wontum-checkpoint-feedback")!
+		const actions = overlay.querySelector(".wontum-checkpoint-actions")!
+
+		const addButton = (parent: Element, label: string, className: string, onClick: () => void): HTMLButtonElement => {
+			const button = document.createElement("button")
+			button.className = className
+			button.textContent = label
+			button.addEventListener("click", onClick)
+			parent.appendChild(button)
+			return button
+		}
+
+		const submit = (answer: number | string) => {
+			const correct = onAnswer(answer)
+			if (correct === null) {
+				onContinue()
+				return
+			}
+
+			answers.querySelectorAll<HTMLButtonElement | HTMLInputElement>("button, input").forEach((element) => (element.disabled = true))
+			if (checkpoint.type === "choice") {
+				answers.children[checkpoint.correctAnswer as number]?.classList.add("correct")
+				if (!correct) answers.children[answer as number]?.classList.add("incorrect")
+			}
+			feedback.textContent = correct ? "Correct!" : checkpoint.type === "text" ? `Incorrect - the answer is "${checkpoint.correctAnswer}"` : "Incorrect"
+			feedback.className = `wontum-checkpoint-feedback ${correct ? "correct" : "incorrect"}`
+
+			actions.innerHTML = ""
+			addButton(actions, "Continue", "wontum-resume-btn primary", onContinue).focus()
+		}
+
+		if (checkpoint.type === "choice") {
+			checkpoint.options?.forEach((option, index) => {
+				addButton(answers, option, "wontum-checkpoint-option", () => submit(index))
+			})
+		} else {
+			const form = document.createElement("form")
+			form.className = "wontum-checkpoint-form"
+			const input = document.createElement("input")
+			input.type = "text"
+			input.className = "wontum-checkpoint-input"
+			input.setAttribute("aria-label", "Your answer")
+			form.appendChild(input)
+			addButton(form, "Submit", "wontum-resume-btn primary", () => {})
+			form.addEventListener("submit", (e) => {
+				e.preventDefault()
+				if (input.value.trim()) submit(input.value.trim())
+			})
+			answers.appendChild(form)
+		}
+
+		if (checkpoint.skippable) {
+			addButton(actions, "Skip", "wontum-resume-btn", onSkip)
+		}
+
+		this.container.appendChild(overlay)
+		this.checkpointOverlay = overlay
+		overlay.querySelector<HTMLElement>("button, input")?.focus()
+	}
+
+	public hideCheckpoint(): void {
+		if (this.checkpointOverlay) {
+			this.checkpointOverlay.remove()
+			this.checkpointOverlay = null
+		}
+	}
+
+	/**
+	 * Show or hide the "stats for nerds" overlay, refreshed twice a second while visible
+	 */
+	public toggleStatsOverlay(visible = !this.statsOverlay): void {
+		if (!visible) {
+			this.hideStatsOverlay()
+			return
+		}
+		if (this.statsOverlay) return
+
+		const overlay = document.createElement("div")
+		overlay.className = "wontum-stats-overlay"
+		overlay.innerHTML = `
+      <button class="wontum-stats-close" aria-label="Close stats">×</button>
+      <div class="wontum-stats-rows"></div>
+    `
+		overlay.querySelector(".wontum-stats-close")!.addEventListener("click", () => this.hideStatsOverlay())
+
+		this.container.appendChild(overlay)
+		this.statsOverlay = overlay
+		this.updateStatsOverlay()
+		this.statsInterval = window.setInterval(() => this.updateStatsOverlay(), 500)
+	}
+
+	private hideStatsOverlay(): void {
+		if (this.statsInterval) {
+			clearInterval(this.statsInterval)
+			this.statsInterval = null
+		}
+		if (this.statsOverlay) {
+			this.statsOverlay.remove()
+			this.statsOverlay = null
+		}
+	}
+
+	private updateStatsOverlay(): void {
+		if (!this.statsOverlay) return
+
+		const stats = this.player.getStats()
+		const formatBitrate = (bps: number | null) => (bps === null ? "-" : bps >= 1e6 ? `${(bps / 1e6).toFixed(2)} Mbps` : `${Math.round(bps / 1e3)} Kbps`)
+		const formatMs = (ms: number | null) => (ms === null ? "-" : `${Math.round(ms)} ms`)
+		const formatSeconds = (seconds: number | null) => (seconds === null ? "-" : `${seconds.toFixed(2)} s`)
+
+		const rows: [string, string][] = [
+			["Engine", `${stats.engine ?? "-"} (${stats.sourceType ?? "-"})`],
+			["Resolution", stats.width ? `${stats.width}x${stats.height}` : "-"],
+			["Bandwidth", formatBitrate(stats.bandwidthEstimate)],
+			["Bitrate", `${formatBitrate(stats.currentBitrate)} / target ${formatBitrate(stats.targetBitrate)}`],
+			["Buffer ahead", formatSeconds(stats.bufferAhead)],
+			["Frames", `${stats.droppedFrames} dropped of ${stats.decodedFrames}`],
+			["Level switches", stats.levelSwitches.toString()],
+			["Fragments", `${stats.fragmentsLoaded} (avg ${formatMs(stats.averageFragmentLoadTime)}, last ${formatMs(stats.lastFragmentLoadTime)})`],
+		]
+		if (stats.latency !== null) {
+			rows.push(["Latency", `${formatSeconds(stats.latency)} / target ${formatSeconds(stats.targetLatency)}`])
+		}
+
+		const container = this.statsOverlay.querySelector(".wontum-stats-rows")!
+		container.innerHTML = ""
+		rows.forEach(([label, value]) => {
+			const row = document.createElement("div")
+			row.className = "wontum-stats-row"
+			row.innerHTML = `<span class="wontum-stats-label"></span><span></span>`
+			row.children[0].textContent = label
+			row.children[1].textContent = value
+			container.appendChild(row)
+		})
+	}
+
+	/**
+	 * Run the action bound to a key press. Ignored while typing in a text field.
+	 */
+	private handleKeydown = (e: KeyboardEvent): void => {
+		const target = e.target as HTMLElement
+		if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return
+		if (target instanceof HTMLInputElement && !["range", "checkbox", "radio", "button"].includes(target.type)) return
+
+		if (e.key === "Escape" && this.shortcutsOverlay) {
+			this.toggleShortcutsHelp(false)
+			e.preventDefault()
+			return
+		}
+
+		// Focused buttons keep their own Space/Enter activation
+		if ((e.key === " " || e.key === "Enter") && target instanceof HTMLButtonElement) return
+
+		// Bindings take precedence, so number keys can be remapped
+		const action = this.keyboard.getAction(e)
+		const fraction = action ? null : this.keyboard.getSeekFraction(e)
+		if (action) {
+			this.runShortcut(action)
+		} else if (fraction !== null) {
+			const timeline = this.getTimeline()
+			if (timeline) this.player.seek(timeline.start + fraction * (timeline.end - timeline.start))
+		} else {
+			return
+		}
+
+		e.preventDefault()
+		this.showControls()
+		this.resetHideControlsTimeout()
+	}
+
+	private runShortcut(action: KeyboardAction): void {
+		const state = this.player.getState()
+
+		switch (action) {
+			case "togglePlay":
+				if (state.playing) {
+					this.player.pause()
+				} else {
+					this.player.play()
+				}
+				break
+			case "skipBackward":
+				this.player.skipBackward(this.keyboard.getSkipSeconds())
+				break
+			case "skipForward":
+				this.player.skipForward(this.keyboard.getSkipSeconds())
+				break
+			case "seekBackward":
+				this.player.skipBackward(this.keyboard.getSeekSeconds())
+				break
+			case "seekForward":
+				this.player.skipForward(this.keyboard.getSeekSeconds())
+				break
+			case "volumeUp":
+			case "volumeDown": {
+				const step = this.keyboard.getVolumeStep()
+				this.player.setVolume(state.volume + (action === "volumeUp" ? step : -step))
+				if (state.muted && action === "volumeUp") this.player.unmute()
+				break
+			}
+			case "toggleMute":
+				if (state.muted) {
+					this.player.unmute()
+				} else {
+					this.player.mute()
+				}
+				break
+			case "toggleFullscreen":
+				this.player.toggleFullscreen().catch(() => {})
+				break
+			case "toggleSubtitles":
+				this.player.toggleSubtitles()
+				break
+			case "speedDown":
+			case "speedUp": {
+				const rate = state.playbackRate || 1
+				const speed = action === "speedUp" ? PLAYBACK_SPEEDS.find((s) => s > rate) : [...PLAYBACK_SPEEDS].reverse().find((s) => s < rate)
+				if (speed !== undefined) this.player.setPlaybackRate(speed)
+				break
+			}
+			case "seekToStart":
+				this.player.seek(this.getTimeline()?.start ?? 0)
+				break
+			case "seekToEnd":
+				if (state.live) {
+					this.player.goLive()
+				} else {
+					const timeline = this.getTimeline()
+					if (timeline) this.player.seek(timeline.end)
+				}
+				break
+			case "showHelp":
+				this.toggleShortcutsHelp()
+				break
+		}
+	}
+
+	/**
+	 * Show or hide the keyboard shortcut help overlay
+	 */
+	public toggleShortcutsHelp(visible = !this.shortcutsOverlay): void {
+		if (!visible) {
+			this.shortcutsOverlay?.remove()
+			this.shortcutsOverlay = null
+			return
+		}
+		if (this.shortcutsOverlay) return
+
+		const overlay = document.createElement("div")
+		overlay.className = "wontum-shortcuts-overlay"
+		overlay.innerHTML = `
+      <div class="wontum-shortcuts-panel" role="dialog" aria-label="Keyboard shortcuts">
+        <button class="wontum-shortcuts-close" aria-label="Close keyboard shortcuts">×</button>
+        <div class="wontum-shortcuts-title">Keyboard shortcuts</div>
+        <div class="wontum-shortcuts-rows"></div>
+      </div>
+    `
+		overlay.querySelector(".wontum-shortcuts-close")!.addEventListener("click", () => this.toggleShortcutsHelp(false))
+		overlay.addEventListener("click", (e) => {
+			if (e.target === overlay) this.toggleShortcutsHelp(false)
+		})
+
+		const rows = this.keyboard.getBindings().map(({ label, keys }) => ({ label, keys: keys.map((key) => KEY_NAMES[key] ?? key) }))
+		if (this.keyboard.hasNumberKeys()) {
+			rows.push({ label: "Seek to 0%-90%", keys: ["0-9"] })
+		}
+
+		const container = overlay.querySelector(".wontum-shortcuts-rows")!
+		rows.forEach(({ label, keys }) => {
+			const row = document.createElement("div")
+			row.className = "wontum-shortcuts-row"
+			const description = document.createElement("span")
+			description.textContent = label
+			row.appendChild(description)
+			const keyList = document.createElement("span")
+			keys.forEach((key) => {
+				const kbd = document.createElement("kbd")
+				kbd.textContent = key
+				keyList.appendChild(kbd)
+			})
+			row.appendChild(keyList)
+			container.appendChild(row)
+		})
+
+		this.container.appendChild(overlay)
+		this.shortcutsOverlay = overlay
+	}
+
+	/**
+	 * Get a UI slot element for plugins to render into
+	 */
+	public getSlot(name: UISlotName): HTMLElement {
+		if (name === "overlay") {
+			return this.pluginOverlay
+		}
+		return this.controlsContainer.querySelector(`.wontum-slot-${name}`)!
+	}
+
 	private showControls(): void {
 		this.controlsContainer.classList.remove("hidden")
 		this.progressContainer.classList.remove("hidden")
@@ -1058,6 +2664,10 @@ export class UIController {
 		return `<svg viewBox="0 0 24 24"><path d="M7 14H5v5h5v-2H7v-3zm-2-4h2V7h3V5H5v5zm12 7h-3v2h5v-5h-2v3zM14 5v2h3v3h2V5h-5z"/></svg>`
 	}
 
+	private getExitFullscreenIcon(): string {
+		return `<svg viewBox="0 0 24 24"><path d="M5 16h3v3h2v-5H5v2zm3-8H5v2h5V5H8v3zm6 11h2v-3h3v-2h-5v5zm2-11V5h-2v5h5V8h-3z"/></svg>`
+	}
+
 	private getPipIcon(): string {
 		return `<svg viewBox="0 0 24 24"><path d="M19 7h-8v6h8V7zm2-4H3c-1.1 0-2 .9-2 2v14c0 1.1.9 1.98 2 1.98h18c1.1 0 2-.88 2-1.98V5c0-1.1-.9-2-2-2zm0 16.01H3V4.98h18v14.03z"/></svg>`
 	}
@@ -1099,5 +2709,21 @@ export class UIController {
 		if (this.progressContainer) {
 			this.progressContainer.remove()
 		}
+
+		this.pluginOverlay.remove()
+
+		this.hideResumePrompt()
+		this.hideUpNext()
+		this.hideError()
+		this.hideStatsOverlay()
+		this.hideCheckpoint()
+		this.toggleShortcutsHelp(false)
+		this.container.removeEventListener("keydown", this.handleKeydown)
+		if (this.addedTabIndex) this.container.removeAttribute("tabindex")
+
+		this.touchGestures?.destroy()
+		this.tapRipple?.remove()
+		if (this.gestureTimeout) clearTimeout(this.gestureTimeout)
+		this.gestureIndicator?.remove()
 	}
 }
@@ -0,0 +1,68 @@
+/**
+ * Minimal WebVTT parser for chapters, thumbnails and metadata tracks
+ */
+
+export interface VttCue {
+	/** Cue identifier line, if any */
+	id?: string
+	startTime: number
+	endTime: number
+	text: string
+}
+
+/**
+ * Parse a WebVTT timestamp (hh:mm:ss.ttt or mm:ss.ttt) into seconds
+ */
+export function parseVttTimestamp(value: string): number {
+	const parts = value.trim().split(":")
+	let seconds = 0
+	for (const part of parts) {
+		seconds = seconds * 60 + parseFloat(part.replace(",", "."))
+	}
+	return seconds
+}
+
+/**
+ * Parse WebVTT text into cues. NOTE, STYLE and REGION blocks and cue settings are ignored.
+ */
+export function parseVtt(text: string): VttCue[] {
+	const cues: VttCue[] = []
+	const blocks = text.replace(/\r\n?/g, "\n").split(/\n{2,}/)
+
+	for (const block of blocks) {
+		const lines = block.split("\n").filter((line) => line.trim() !== "")
+		const timingIndex = lines.findIndex((line) => line.includes("-->"))
+		if (timingIndex === -1) continue
+
+		const [start, rest] = lines[timingIndex].split("-->")
+		const end = rest.trim().split(/\s+/)[0]
+
+		const startTime = parseVttTimestamp(start)
+		const endTime = parseVttTimestamp(end)
+		if (isNaN(startTime) || isNaN(endTime)) continue
+
+		cues.push({
+			id: timingIndex > 0 ? lines[timingIndex - 1].trim() : undefined,
+			startTime,
+			endTime,
+			text: lines.slice(timingIndex + 1).join("\n"),
+		})
+	}
+
+	return cues.sort((a, b) => a.startTime - b.startTime)
+}
+
+/**
+ * Fetch and parse a WebVTT file
+ */
+export async function fetchVtt(url: string, withCredentials = false): Promise<VttCue[]> {
+	const response = await fetch(url, {
+		credentials: withCredentials ? "include" : "same-origin",
+	})
+
+	if (!response.ok) {
+		throw new Error(`Failed to load WebVTT file (${response.status}): ${url}`)
+	}
+
+	return parseVtt(await response.text())
+}
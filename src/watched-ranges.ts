@@ -0,0 +1,136 @@
+import { CompletionConfig, StorageAdapter, TimeRange } from "./types"
+import { LocalStorageAdapter, runStorage } from "./storage"
+
+/**
+ * WatchedRangeTracker - Keeps the union of the parts of a video that were actually played,
+ * so completion can be judged on unique content rather than time spent
+ */
+export class WatchedRangeTracker {
+	private config: CompletionConfig
+	private storage: StorageAdapter
+	private key: string | null = null
+	private ranges: TimeRange[] = []
+	private completed = false
+	private dirty = false
+	private lastSavedAt = 0
+
+	constructor(config?: CompletionConfig) {
+		this.config = { ...config }
+		this.storage = config?.storage || new LocalStorageAdapter("wontum-watched:")
+	}
+
+	/**
+	 * Start tracking a source, restoring its saved ranges when persistence is on.
+	 * Reloading the same source keeps the ranges collected so far.
+	 */
+	public async load(src: string, videoId?: string): Promise<void> {
+		const key = this.config.key || videoId || src
+		if (key === this.key) return
+
+		this.save()
+		this.key = key
+		this.ranges = []
+		this.completed = false
+		this.dirty = false
+		if (!this.config.persist) return
+
+		try {
+			const raw = await this.storage.getItem(key)
+			// Source changed while the storage adapter was reading
+			if (!raw || key !== this.key) return
+
+			const saved = JSON.parse(raw)
+			if (Array.isArray(saved.ranges)) {
+				saved.ranges.forEach(([start, end]: [number, number]) => {
+					if (isFinite(start) && isFinite(end)) this.add(start, end)
+				})
+			}
+			this.completed = this.completed || !!saved.completed
+		} catch (error) {
+			console.warn("WontumPlayer: Failed to read watched ranges:", error)
+		}
+	}
+
+	/**
+	 * Merge the video element's played ranges into the watched ranges. Saves at most every 5 seconds.
+	 */
+	public track(played: TimeRanges): void {
+		for (let i = 0; i < played.length; i++) {
+			if (this.add(played.start(i), played.end(i))) this.dirty = true
+		}
+		if (this.dirty && Date.now() - this.lastSavedAt >= 5000) this.save()
+	}
+
+	public getRanges(): TimeRange[] {
+		return this.ranges.map((range) => ({ ...range }))
+	}
+
+	/**
+	 * Percentage (0-100) of `within` covered by watched ranges
+	 */
+	public getPercentWatched(within: TimeRange): number {
+		const length = within.end - within.start
+		if (!(length > 0)) return 0
+
+		const watched = this.ranges.reduce((total, range) => total + Math.max(0, Math.min(range.end, within.end) - Math.max(range.start, within.start)), 0)
+		return Math.min((watched / length) * 100, 100)
+	}
+
+	public isCompleted(): boolean {
+		return this.completed
+	}
+
+	/**
+	 * Returns true the first time the completion threshold is met for the source
+	 */
+	public checkCompletion(within: TimeRange): boolean {
+		if (this.completed || this.getPercentWatched(within) < (this.config.threshold ?? 90)) return false
+
+		this.completed = true
+		this.dirty = true
+		this.save()
+		return true
+	}
+
+	/**
+	 * Save immediately (on pause, source change, destroy)
+	 */
+	public save(): void {
+		const key = this.key
+		if (!this.config.persist || !key || !this.dirty) return
+
+		this.dirty = false
+		this.lastSavedAt = Date.now()
+		const ranges = this.ranges.map((range) => [Math.round(range.start * 1000) / 1000, Math.round(range.end * 1000) / 1000])
+		runStorage(() => this.storage.setItem(key, JSON.stringify({ ranges, completed: this.completed })), "watched ranges")
+	}
+
+	public clear(): void {
+		this.ranges = []
+		this.completed = false
+		this.dirty = false
+		const key = this.key
+		if (this.config.persist && key) runStorage(() => this.storage.removeItem(key), "watched ranges")
+	}
+
+	// Merge into the sorted, non-overlapping range list. Returns false when already covered.
+	private add(start: number, end: number): boolean {
+		if (end <= start || this.ranges.some((range) => range.start <= start && range.end >= end)) return false
+
+		const merged: TimeRange[] = []
+		let added = { start, end }
+		for (const range of this.ranges) {
+			if (range.end < added.start) {
+				merged.push(range)
+			} else if (range.start > added.end) {
+				merged.push(added)
+				added = range
+			} else {
+				added = { start: Math.min(range.start, added.start), end: Math.max(range.end, added.end) }
+			}
+		}
+		merged.push(added)
+		this.ranges = merged
+		return true
+	}
+}